@@ -0,0 +1,241 @@
+import type { CapturedRequest } from './index'
+import { matchesRequest, type RequestPattern } from './matchers'
+
+/**
+ * キャプチャしたリクエストに対する期待値です。指定した項目を全て満たすリクエストにマッチします。
+ */
+export interface RequestExpectation extends RequestPattern {
+  /**
+   * 完全なURLです。
+   */
+  url?: string
+  /**
+   * ボディをJSONとしてパースした値です。非対称マッチャー（`expect.objectContaining` など）も使えます。
+   */
+  json?: unknown
+  /**
+   * ボディの文字列です。
+   */
+  body?: unknown
+  /**
+   * ヘッダーの期待値です。指定したヘッダーのみを比較します（ヘッダー名は大文字小文字を区別しません）。
+   */
+  headers?: Record<string, unknown>
+}
+
+/**
+ * マッチャーの実行コンテキストのうち、このライブラリが使う部分です。VitestとJestのどちらも該当します。
+ */
+export interface CaptureMatcherContext {
+  equals(a: unknown, b: unknown): boolean
+  utils: {
+    diff(a: unknown, b: unknown): string | null | undefined
+    printExpected(value: unknown): string
+    printReceived(value: unknown): string
+  }
+}
+
+export interface CaptureMatcherResult {
+  pass: boolean
+  message: () => string
+}
+
+/**
+ * VitestとJestの `Assertion` に追加されるマッチャーの型定義です。
+ */
+export interface CaptureMatchers<R = unknown> {
+  /**
+   * バッチに期待値を満たすリクエストが含まれることを検証します。
+   */
+  toContainRequest(expectation: RequestExpectation): R
+  /**
+   * バッチに期待値を満たすリクエストがちょうど `count` 件含まれることを検証します。
+   */
+  toHaveRequestCount(expectation: RequestExpectation, count: number): R
+  /**
+   * バッチのリクエストが期待値の配列と同じ件数で、順番に期待値を満たすことを検証します。
+   */
+  toMatchRequestSequence(expectations: RequestExpectation[]): R
+}
+
+interface AsymmetricMatcher {
+  asymmetricMatch(actual: unknown): boolean
+}
+
+const parseJson = (request: CapturedRequest): unknown => {
+  if (request.decodedBody?.type === 'json') return request.decodedBody.value
+  if (request.body === undefined) return undefined
+  try {
+    return JSON.parse(request.body)
+  } catch {
+    return undefined
+  }
+}
+
+const parsePathname = (url: string): string => {
+  try {
+    return new URL(url).pathname
+  } catch {
+    return url
+  }
+}
+
+const parseHost = (url: string): string => {
+  try {
+    return new URL(url).host
+  } catch {
+    return url
+  }
+}
+
+/**
+ * リクエストを期待値と同じ項目だけの形に変換します。失敗時の差分表示に使います。
+ */
+const project = (request: CapturedRequest, expectation: RequestExpectation): Record<string, unknown> => {
+  const projected: Record<string, unknown> = {}
+  if (expectation.method !== undefined) projected.method = request.method
+  if (expectation.host !== undefined) projected.host = parseHost(request.url)
+  if (expectation.path !== undefined) projected.path = parsePathname(request.url)
+  if (expectation.url !== undefined) projected.url = request.url
+  if (expectation.json !== undefined) projected.json = parseJson(request)
+  if (expectation.body !== undefined) projected.body = request.body
+  if (expectation.headers !== undefined) {
+    projected.headers = Object.fromEntries(
+      Object.keys(expectation.headers).map(name => [name, request.headers?.[name.toLowerCase()]])
+    )
+  }
+  return projected
+}
+
+/**
+ * リクエストの概要です。失敗時の一覧表示に使います。
+ */
+const summarize = (request: CapturedRequest): Record<string, unknown> => {
+  const summary: Record<string, unknown> = { method: request.method, url: request.url }
+  const json = parseJson(request)
+  if (json !== undefined) {
+    summary.json = json
+  } else if (request.body !== undefined) {
+    summary.body = request.body
+  }
+  return summary
+}
+
+/**
+ * 値が等しいかを判定します。期待値に非対称マッチャー（`asymmetricMatch` を持つオブジェクト）を含めることができます。
+ * 値が `undefined` のプロパティは存在しないものとして扱います。
+ */
+export const isEqual = (actual: unknown, expected: unknown): boolean => {
+  if (expected !== null && typeof expected === 'object' && typeof (expected as AsymmetricMatcher).asymmetricMatch === 'function') {
+    return (expected as AsymmetricMatcher).asymmetricMatch(actual)
+  }
+  if (Object.is(actual, expected)) return true
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && actual.length === expected.length && expected.every((item, index) => isEqual(actual[index], item))
+  }
+  if (expected === null || typeof expected !== 'object' || actual === null || typeof actual !== 'object' || Array.isArray(actual)) {
+    return false
+  }
+  const definedKeys = (value: object) => Object.keys(value).filter(key => (value as Record<string, unknown>)[key] !== undefined)
+  const expectedKeys = definedKeys(expected)
+  return (
+    expectedKeys.length === definedKeys(actual).length &&
+    expectedKeys.every(key => isEqual((actual as Record<string, unknown>)[key], (expected as Record<string, unknown>)[key]))
+  )
+}
+
+/**
+ * リクエストが期待値の項目を全て満たすかを判定します。
+ * @param equals 値の比較に使う関数（デフォルト: `isEqual`）
+ */
+export const matchesExpectation = (
+  request: CapturedRequest,
+  expectation: RequestExpectation,
+  equals: (actual: unknown, expected: unknown) => boolean = isEqual
+): boolean => {
+  const { host, path, method, url, json, body, headers } = expectation
+  if (!matchesRequest(request, { host, path, method })) return false
+  if (url !== undefined && !equals(request.url, url)) return false
+  if (json !== undefined && !equals(parseJson(request), json)) return false
+  if (body !== undefined && !equals(request.body, body)) return false
+  if (headers !== undefined) {
+    return Object.entries(headers).every(([name, value]) =>
+      equals(request.headers?.[name.toLowerCase()], value)
+    )
+  }
+  return true
+}
+
+const formatBatch = (context: CaptureMatcherContext, requests: CapturedRequest[]): string =>
+  requests.length === 0
+    ? '  (リクエストなし)'
+    : requests.map(request => `  ${context.utils.printReceived(summarize(request))}`).join('\n')
+
+/**
+ * キャプチャしたバッチを検証するカスタムマッチャーです。`expect.extend(captureMatchers)` で登録します。
+ */
+export const captureMatchers = {
+  toContainRequest(this: CaptureMatcherContext, received: CapturedRequest[], expectation: RequestExpectation): CaptureMatcherResult {
+    const equals = (a: unknown, b: unknown) => this.equals(a, b)
+    const pass = received.some(request => matchesExpectation(request, expectation, equals))
+    return {
+      pass,
+      message: () => [
+        pass
+          ? '期待値を満たすリクエストが含まれないことを期待しましたが、含まれていました。'
+          : '期待値を満たすリクエストが含まれることを期待しましたが、含まれていませんでした。',
+        `期待値: ${this.utils.printExpected(expectation)}`,
+        'キャプチャされたリクエスト:',
+        formatBatch(this, received),
+      ].join('\n'),
+    }
+  },
+
+  toHaveRequestCount(
+    this: CaptureMatcherContext,
+    received: CapturedRequest[],
+    expectation: RequestExpectation,
+    count: number
+  ): CaptureMatcherResult {
+    const equals = (a: unknown, b: unknown) => this.equals(a, b)
+    const matched = received.filter(request => matchesExpectation(request, expectation, equals))
+    const pass = matched.length === count
+    return {
+      pass,
+      message: () => [
+        pass
+          ? `期待値を満たすリクエストが ${count} 件でないことを期待しましたが、${count} 件でした。`
+          : `期待値を満たすリクエストが ${count} 件であることを期待しましたが、${matched.length} 件でした。`,
+        `期待値: ${this.utils.printExpected(expectation)}`,
+        'マッチしたリクエスト:',
+        formatBatch(this, matched),
+      ].join('\n'),
+    }
+  },
+
+  toMatchRequestSequence(
+    this: CaptureMatcherContext,
+    received: CapturedRequest[],
+    expectations: RequestExpectation[]
+  ): CaptureMatcherResult {
+    const equals = (a: unknown, b: unknown) => this.equals(a, b)
+    const pass =
+      received.length === expectations.length &&
+      expectations.every((expectation, index) => matchesExpectation(received[index], expectation, equals))
+
+    return {
+      pass,
+      message: () => {
+        if (pass) {
+          return 'リクエストの並びが期待値と一致しないことを期待しましたが、一致しました。'
+        }
+        // 期待値と同じ項目だけに絞って差分を表示する
+        const projected = received.map((request, index) => project(request, expectations[index] ?? {}))
+        return [
+          'リクエストの並びが期待値と一致しませんでした。',
+          this.utils.diff(expectations, projected) ?? '',
+        ].join('\n')
+      },
+    }
+  },
+}
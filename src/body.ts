@@ -0,0 +1,258 @@
+import { createHash } from 'node:crypto'
+
+/**
+ * multipart/form-dataの各パートの型定義です。
+ */
+export interface MultipartPart {
+  name: string
+  /**
+   * ファイル以外のパートの値です。
+   */
+  value?: string
+  /**
+   * ファイルパートのファイル名です。
+   */
+  fileName?: string
+  contentType?: string
+  size?: number
+  /**
+   * ファイルパートの内容のSHA-256ハッシュ（16進数）です。
+   */
+  sha256?: string
+}
+
+/**
+ * Content-Typeに応じてデコードされたリクエストボディの型定義です。
+ */
+export type DecodedBody =
+  | { type: 'json'; value: unknown }
+  | { type: 'form'; value: Record<string, string | string[]> }
+  | { type: 'multipart'; parts: MultipartPart[] }
+  | { type: 'text'; value: string }
+  | { type: 'binary'; size: number; base64?: string; sha256?: string }
+  | { type: 'custom'; mediaType: string; value: unknown }
+
+/**
+ * 最大サイズを超えたため切り詰められたボディの情報です。
+ */
+export interface BodyTruncation {
+  /**
+   * 切り詰める前のボディのバイト数です。
+   */
+  originalLength: number
+  /**
+   * 切り詰める前のボディのSHA-256ハッシュ（16進数）です。
+   */
+  sha256: string
+}
+
+/**
+ * ボディをキャプチャするHTTPメソッドの指定方法です。
+ * `'*'` は全てのメソッド、関数の場合はtrueを返したリクエストのボディをキャプチャします。
+ */
+export type BodyMethodPolicy = string[] | '*' | ((request: Request) => boolean)
+
+/**
+ * ボディのキャプチャ方法を定義するインターフェースです。
+ */
+export interface BodyCaptureOptions {
+  /**
+   * ボディを読み取るHTTPメソッドです。デフォルトは `['POST', 'PUT', 'PATCH']` です。
+   */
+  methods?: BodyMethodPolicy
+  /**
+   * キャプチャするボディの最大バイト数です。超えた分は切り詰められます。
+   */
+  maxBytes?: number
+}
+
+export const DEFAULT_BODY_METHODS = ['POST', 'PUT', 'PATCH']
+
+/**
+ * 独自のメディアタイプをデコードする関数です。
+ */
+export type BodyDecoder = (request: Request) => unknown | Promise<unknown>
+
+/**
+ * ボディのデコード方法を定義するインターフェースです。
+ */
+export interface BodyDecodeOptions {
+  /**
+   * バイナリボディの表現方法です。デフォルトは `base64` です。
+   * `digest` の場合はサイズとSHA-256ハッシュのみを保持します。
+   */
+  binary?: 'base64' | 'digest'
+  /**
+   * メディアタイプごとの独自デコーダーです。
+   * キーには `application/x-protobuf` のような完全なメディアタイプ、または `image/*` のようなワイルドカードを指定できます。
+   * 組み込みのデコーダーより優先されます。
+   */
+  decoders?: Record<string, BodyDecoder>
+}
+
+/**
+ * Content-Typeヘッダーからパラメータを除いたメディアタイプを取り出します。
+ */
+const getMediaType = (contentType: string | null): string =>
+  (contentType ?? '').split(';')[0].trim().toLowerCase()
+
+const findDecoder = (mediaType: string, decoders: Record<string, BodyDecoder>): BodyDecoder | undefined => {
+  const normalized = Object.fromEntries(
+    Object.entries(decoders).map(([key, decoder]) => [key.toLowerCase(), decoder])
+  )
+  return normalized[mediaType] ?? normalized[`${mediaType.split('/')[0]}/*`]
+}
+
+const isJson = (mediaType: string): boolean =>
+  mediaType === 'application/json' || mediaType.endsWith('+json')
+
+const isText = (mediaType: string): boolean =>
+  mediaType.startsWith('text/') ||
+  mediaType === 'application/xml' ||
+  mediaType.endsWith('+xml') ||
+  mediaType === 'application/javascript' ||
+  mediaType === 'application/graphql'
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = ''
+  const chunkSize = 0x8000
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize))
+  }
+  return btoa(binary)
+}
+
+/**
+ * バイト列のSHA-256ハッシュを16進数文字列で返します。
+ */
+export async function sha256(data: ArrayBuffer | Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * リクエストのボディを読み取るかどうかをメソッドの指定に従って判定します。
+ */
+export function shouldCaptureBody(request: Request, methods: BodyMethodPolicy = DEFAULT_BODY_METHODS): boolean {
+  if (!request.body) return false
+  if (methods === '*') return true
+  if (typeof methods === 'function') return methods(request)
+  return methods.some(method => method.toUpperCase() === request.method.toUpperCase())
+}
+
+/**
+ * リクエストボディをテキストとして読み取ります。
+ * `maxBytes` を超える場合は先頭のみを保持し、元のサイズとハッシュを返します。
+ * 大きなボディでもメモリを使い切らないよう、ボディはストリームとして読み取り、ハッシュはチャンクごとに計算します。
+ * @param request 読み取るリクエスト（内部でクローンされます）
+ * @param maxBytes 保持する最大バイト数
+ * @returns ボディのテキストと、切り詰めた場合はその情報
+ */
+export async function readBody(request: Request, maxBytes?: number): Promise<{ body: string; truncated?: BodyTruncation }> {
+  if (maxBytes === undefined) {
+    return { body: await request.clone().text() }
+  }
+
+  const stream = request.clone().body
+  if (!stream) return { body: '' }
+
+  const reader = stream.getReader()
+  const hash = createHash('sha256')
+  const chunks: Uint8Array[] = []
+  let kept = 0
+  let originalLength = 0
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    const chunk = result.value
+    hash.update(chunk)
+    originalLength += chunk.byteLength
+    if (kept < maxBytes) {
+      // 先頭のみを複製して保持し、読み終えたチャンクは解放できるようにする
+      const part = chunk.slice(0, maxBytes - kept)
+      chunks.push(part)
+      kept += part.byteLength
+    }
+  }
+
+  const head = Buffer.concat(chunks, kept)
+  if (originalLength <= maxBytes) {
+    return { body: new TextDecoder().decode(head) }
+  }
+
+  // 切り詰めで壊れたマルチバイト文字は取り除く
+  const body = new TextDecoder().decode(head).replace(/\uFFFD+$/, '')
+  return {
+    body,
+    truncated: { originalLength, sha256: hash.digest('hex') },
+  }
+}
+
+const decodeForm = (params: URLSearchParams): Record<string, string | string[]> => {
+  const value: Record<string, string | string[]> = {}
+  for (const key of Array.from(new Set(params.keys())).sort()) {
+    const values = params.getAll(key)
+    value[key] = values.length === 1 ? values[0] : values
+  }
+  return value
+}
+
+const decodeMultipart = async (formData: FormData): Promise<MultipartPart[]> => {
+  const parts: MultipartPart[] = []
+  for (const [name, entry] of formData.entries()) {
+    if (typeof entry === 'string') {
+      parts.push({ name, value: entry })
+      continue
+    }
+    const bytes = await entry.arrayBuffer()
+    parts.push({
+      name,
+      fileName: entry.name,
+      contentType: entry.type || undefined,
+      size: bytes.byteLength,
+      sha256: await sha256(bytes),
+    })
+  }
+  return parts
+}
+
+/**
+ * リクエストボディをContent-Typeに応じてデコードします。
+ * @param request デコードするリクエスト（内部でクローンされます）
+ * @param options ボディのデコード設定
+ * @returns デコードされたボディ
+ */
+export async function decodeBody(request: Request, options: BodyDecodeOptions): Promise<DecodedBody> {
+  const mediaType = getMediaType(request.headers.get('content-type'))
+
+  const decoder = findDecoder(mediaType, options.decoders ?? {})
+  if (decoder) {
+    return { type: 'custom', mediaType, value: await decoder(request.clone()) }
+  }
+
+  if (isJson(mediaType)) {
+    const text = await request.clone().text()
+    try {
+      return { type: 'json', value: JSON.parse(text) }
+    } catch {
+      // 不正なJSONはテキストとして扱う
+      return { type: 'text', value: text }
+    }
+  }
+
+  if (mediaType === 'application/x-www-form-urlencoded') {
+    return { type: 'form', value: decodeForm(new URLSearchParams(await request.clone().text())) }
+  }
+
+  if (mediaType === 'multipart/form-data') {
+    return { type: 'multipart', parts: await decodeMultipart(await request.clone().formData()) }
+  }
+
+  if (isText(mediaType)) {
+    return { type: 'text', value: await request.clone().text() }
+  }
+
+  const bytes = new Uint8Array(await request.clone().arrayBuffer())
+  if (options.binary === 'digest') {
+    return { type: 'binary', size: bytes.byteLength, sha256: await sha256(bytes) }
+  }
+  return { type: 'binary', size: bytes.byteLength, base64: toBase64(bytes) }
+}
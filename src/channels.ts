@@ -0,0 +1,87 @@
+import { createRequestsCaptureHandler, type CreateRequestsCaptureHandlerOptions, type RequestsCapturer } from './index'
+import { matchesRequest, type RequestMatcher } from './matchers'
+import type { ResponseEventSource } from './responses'
+
+/**
+ * チャンネルの設定です。`createRequestsCaptureHandler` のオプションに加えて、振り分けの条件を指定します。
+ */
+export interface CaptureChannelOptions extends CreateRequestsCaptureHandlerOptions {
+  /**
+   * このチャンネルに振り分けるリクエストの条件です。配列の場合はいずれかにマッチしたリクエストを振り分けます。
+   */
+  match: RequestMatcher | RequestMatcher[]
+}
+
+export interface CreateChannelCaptureHandlerOptions<Name extends string> {
+  /**
+   * チャンネル名ごとの設定です。リクエストは定義順で最初にマッチしたチャンネルに振り分けられます。
+   * どのチャンネルにもマッチしないリクエストはキャプチャされません。
+   */
+  channels: Record<Name, CaptureChannelOptions>
+}
+
+/**
+ * リクエストを名前付きのチャンネルに振り分けてキャプチャするハンドラー関数を作成します。
+ * 各チャンネルは独立したバッファ、ハンドラ、チェックポイント設定を持ちます。
+ * @param options 設定オプション
+ * @returns handler関数、checkpoint関数、dispose関数、observe関数、チャンネルごとのキャプチャラーを含むオブジェクト
+ */
+export function createChannelCaptureHandler<Name extends string>(options: CreateChannelCaptureHandlerOptions<Name>) {
+  const names = Object.keys(options.channels) as Name[]
+  const channels = {} as Record<Name, RequestsCapturer>
+  const matchers = {} as Record<Name, RequestMatcher[]>
+
+  names.forEach(name => {
+    const { match, ...channelOptions } = options.channels[name]
+    channels[name] = createRequestsCaptureHandler(channelOptions)
+    matchers[name] = Array.isArray(match) ? match : [match]
+  })
+
+  /**
+   * 指定したチャンネル、または全てのチャンネルのチェックポイントを実行します。
+   * @param name チャンネル名（省略時は全てのチャンネル）
+   */
+  const checkpoint = async (name?: Name): Promise<void> => {
+    if (name !== undefined) {
+      return channels[name].checkpoint()
+    }
+    await Promise.all(names.map(channelName => channels[channelName].checkpoint()))
+  }
+
+  /**
+   * 全てのチャンネルのキャプチャを終了します。
+   * @param options.flush 残っているリクエストをハンドラで処理するか（デフォルト: true）
+   */
+  const dispose = async (options?: { flush?: boolean }): Promise<void> => {
+    await Promise.all(names.map(name => channels[name].dispose(options)))
+  }
+
+  /**
+   * 全てのチャンネルでMSWのライフサイクルイベントを購読します。
+   * @param events `server.events` などのイベントソース
+   * @returns 購読を解除する関数
+   */
+  const observe = (events: ResponseEventSource): (() => void) => {
+    const unobserves = names.map(name => channels[name].observe(events))
+    return () => unobserves.forEach(unobserve => unobserve())
+  }
+
+  const requestHandler = async (info: { request: Request; requestId: string }) => {
+    const name = names.find(channelName => matchers[channelName].some(matcher => matchesRequest(info.request, matcher)))
+
+    // どのチャンネルにもマッチしないリクエストはキャプチャせずにそのまま委譲する
+    if (name === undefined) {
+      return undefined
+    }
+
+    return channels[name].handler(info)
+  }
+
+  return {
+    handler: requestHandler,
+    checkpoint,
+    dispose,
+    observe,
+    channels
+  }
+}
@@ -0,0 +1,180 @@
+import type { ExpectationResult, ExpectedRequest, MismatchedRequest, MissingRequest } from './expectations'
+import type { CapturedRequest } from './index'
+import type { RequestLike } from './matchers'
+
+/**
+ * キャプチャハンドラが失敗したバッチの記録です。
+ */
+export interface CheckpointFailure {
+  error: unknown
+  /**
+   * ハンドラに渡されたリクエスト（正規化・ソート済み）です。
+   */
+  requests: CapturedRequest[]
+}
+
+/**
+ * キャプチャハンドラのエラーの扱い方です。
+ * - `rethrow`: `checkpoint()` のPromiseを `CaptureHandlerError` でrejectします
+ * - `log`: `console.error` に出力して処理を続けます
+ * - `collect`: `failures` に記録するだけで処理を続けます
+ * - 関数: 失敗の記録を受け取って任意の処理を行います
+ */
+export type CheckpointErrorPolicy = 'rethrow' | 'log' | 'collect' | ((failure: CheckpointFailure) => void)
+
+/**
+ * キャプチャハンドラがエラーを投げたときに `checkpoint()` が返すエラーです。
+ */
+export class CaptureHandlerError extends Error {
+  readonly requests: CapturedRequest[]
+  readonly cause: unknown
+
+  constructor(failure: CheckpointFailure) {
+    const reason = failure.error instanceof Error ? failure.error.message : String(failure.error)
+    const summary = failure.requests.map(request => `  ${request.method} ${request.url}`).join('\n')
+    super(`キャプチャハンドラが ${failure.requests.length} 件のリクエストの処理に失敗しました: ${reason}\n${summary}`)
+    this.name = 'CaptureHandlerError'
+    this.requests = failure.requests
+    this.cause = failure.error
+  }
+}
+
+/**
+ * キャプチャセッションの終了時に、テストの外で発生したリクエストや解放されていないリクエストが見つかったときのエラーです。
+ */
+export class CaptureSessionError extends Error {
+  /**
+   * テストの終了時にwaitForCheckpointで待機していたリクエストの数です。
+   */
+  readonly held: number
+  /**
+   * テストの終了後に到着したリクエストです。
+   */
+  readonly leaked: RequestLike[]
+
+  constructor(held: number, leaked: RequestLike[]) {
+    const messages: string[] = []
+    if (held > 0) {
+      messages.push(`テストの終了時に ${held} 件のリクエストがwaitForCheckpointで待機していました`)
+    }
+    if (leaked.length > 0) {
+      messages.push(
+        `テストの終了後に ${leaked.length} 件のリクエストが到着しました:\n` +
+        leaked.map(request => `  ${request.method} ${request.url}`).join('\n')
+      )
+    }
+    super(messages.join('\n'))
+    this.name = 'CaptureSessionError'
+    this.held = held
+    this.leaked = leaked
+  }
+}
+
+/**
+ * スナップショットの検証で、キャプチャしたリクエストが記録と異なっていたときのエラーです。
+ */
+export class SnapshotMismatchError extends Error {
+  /**
+   * スナップショットのキー（テスト名とチェックポイントの番号）です。
+   */
+  readonly key: string
+  /**
+   * 記録されているリクエストです。記録がない場合は `undefined` です。
+   */
+  readonly expected: CapturedRequest[] | undefined
+  readonly actual: CapturedRequest[]
+
+  constructor(key: string, expected: CapturedRequest[] | undefined, actual: CapturedRequest[], diff: string) {
+    super(
+      expected === undefined
+        ? `スナップショット "${key}" が記録されていません。CAPTURE_REQUESTS=record で記録してください`
+        : `スナップショット "${key}" とキャプチャしたリクエストが一致しません:\n${diff}`
+    )
+    this.name = 'SnapshotMismatchError'
+    this.key = key
+    this.expected = expected
+    this.actual = actual
+  }
+}
+
+/**
+ * スナップショットの検証で、テストが参照しなかった記録が残っていたときのエラーです。
+ */
+export class ObsoleteSnapshotError extends Error {
+  /**
+   * 参照されなかったスナップショットのキーです。
+   */
+  readonly keys: string[]
+
+  constructor(keys: string[]) {
+    super(
+      `テストで使われなかったスナップショットがあります: ${keys.map(key => `"${key}"`).join(', ')}。` +
+      'CAPTURE_REQUESTS=record で記録し直してください'
+    )
+    this.name = 'ObsoleteSnapshotError'
+    this.keys = keys
+  }
+}
+
+const describeExpectation = (expectation: ExpectedRequest): string =>
+  JSON.stringify(expectation.exact ?? expectation.match)
+
+const describeRequest = (request: CapturedRequest): string =>
+  `${request.method} ${request.url}${request.body !== undefined ? ` ${request.body}` : ''}`
+
+/**
+ * チェックポイントのバッチが `expectRequests()` の宣言と一致しなかったときのエラーです。
+ */
+export class ExpectationError extends Error {
+  /**
+   * 件数が足りない宣言です。
+   */
+  readonly missing: MissingRequest[]
+  /**
+   * 期待していないリクエストです。
+   */
+  readonly unexpected: CapturedRequest[]
+  /**
+   * 宣言と宛先は一致するものの、内容が異なるリクエストです。
+   */
+  readonly mismatched: MismatchedRequest[]
+
+  constructor(result: ExpectationResult) {
+    const messages = ['チェックポイントのリクエストが宣言と一致しません']
+    if (result.missing.length > 0) {
+      messages.push(
+        '不足しているリクエスト:',
+        ...result.missing.map(({ expectation, expected, actual }) =>
+          `  ${describeExpectation(expectation)}（期待: ${expected} 件、実際: ${actual} 件）`
+        )
+      )
+    }
+    if (result.unexpected.length > 0) {
+      messages.push('期待していないリクエスト:', ...result.unexpected.map(request => `  ${describeRequest(request)}`))
+    }
+    if (result.mismatched.length > 0) {
+      messages.push(
+        '内容が異なるリクエスト:',
+        ...result.mismatched.flatMap(({ expectation, request }) => [
+          `  期待: ${describeExpectation(expectation)}`,
+          `  実際: ${describeRequest(request)}`
+        ])
+      )
+    }
+    super(messages.join('\n'))
+    this.name = 'ExpectationError'
+    this.missing = result.missing
+    this.unexpected = result.unexpected
+    this.mismatched = result.mismatched
+  }
+}
+
+/**
+ * `dispose()` した後のキャプチャハンドラーを使ったときのエラーです。
+ */
+export class CaptureDisposedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CaptureDisposedError'
+  }
+}
@@ -0,0 +1,129 @@
+import { isEqual, matchesExpectation, type RequestExpectation } from './assertions'
+import type { CapturedRequest } from './index'
+import { matchesRequest } from './matchers'
+import { stripTiming } from './normalizers'
+
+/**
+ * 次のチェックポイントで期待するリクエストの宣言です。
+ * `match` は指定した項目だけを比較する部分一致、`exact` は正規化後のリクエスト全体との完全一致です。
+ */
+export type ExpectedRequest = ({ match: RequestExpectation; exact?: never } | { exact: CapturedRequest; match?: never }) & {
+  /**
+   * 期待する件数です。デフォルトは1です。
+   */
+  times?: number
+  /**
+   * trueの場合、0件から `times` 件までを許容します。
+   */
+  optional?: boolean
+  /**
+   * trueの場合、マッチするリクエストがあれば期待していないリクエストとして扱います。
+   */
+  forbidden?: boolean
+}
+
+/**
+ * 件数が足りない宣言です。
+ */
+export interface MissingRequest {
+  expectation: ExpectedRequest
+  /**
+   * 期待する最小の件数です。
+   */
+  expected: number
+  /**
+   * マッチしたリクエストの件数です。
+   */
+  actual: number
+}
+
+/**
+ * 宣言とメソッド・URLは一致するものの、その他の項目が異なるリクエストです。
+ */
+export interface MismatchedRequest {
+  expectation: ExpectedRequest
+  request: CapturedRequest
+}
+
+/**
+ * 宣言に対するバッチの検証結果です。
+ */
+export interface ExpectationResult {
+  missing: MissingRequest[]
+  /**
+   * どの宣言にもマッチしなかったリクエストと、禁止された宣言にマッチしたリクエストです。
+   */
+  unexpected: CapturedRequest[]
+  mismatched: MismatchedRequest[]
+}
+
+// 完全一致の比較では、実行ごとに変わるタイミングの情報を無視する
+const matches = (request: CapturedRequest, expectation: ExpectedRequest): boolean =>
+  expectation.exact !== undefined
+    ? isEqual(stripTiming()(request), expectation.exact)
+    : matchesExpectation(request, expectation.match)
+
+/**
+ * 宣言と同じ宛先（メソッドとURL）へのリクエストかを判定します。一致しないリクエストの報告に使います。
+ */
+const targets = (request: CapturedRequest, expectation: ExpectedRequest): boolean => {
+  if (expectation.exact !== undefined) {
+    return request.method === expectation.exact.method && request.url === expectation.exact.url
+  }
+  const { host, path, method, url } = expectation.match
+  return matchesRequest(request, { host, path, method }) && (url === undefined || isEqual(request.url, url))
+}
+
+/**
+ * バッチのリクエストを宣言と照合します。
+ * リクエストはバッチの順に、宣言の順で最初にマッチし件数に余裕のある宣言に割り当てられます。
+ * @param requests 検証するリクエスト（正規化・ソート済み）
+ * @param expectations 期待するリクエストの宣言
+ * @returns 検証結果。全ての配列が空であれば宣言を満たしています
+ */
+export function verifyExpectations(requests: CapturedRequest[], expectations: ExpectedRequest[]): ExpectationResult {
+  const counts = expectations.map(() => 0)
+  const unexpected: CapturedRequest[] = []
+
+  for (const request of requests) {
+    // 禁止された宣言は他の宣言より優先する
+    if (expectations.some(expectation => expectation.forbidden && matches(request, expectation))) {
+      unexpected.push(request)
+      continue
+    }
+    const index = expectations.findIndex((expectation, index) =>
+      !expectation.forbidden && counts[index] < (expectation.times ?? 1) && matches(request, expectation)
+    )
+    if (index < 0) {
+      unexpected.push(request)
+    } else {
+      counts[index]++
+    }
+  }
+
+  const missing: MissingRequest[] = []
+  const mismatched: MismatchedRequest[] = []
+  expectations.forEach((expectation, index) => {
+    const expected = expectation.forbidden || expectation.optional ? 0 : expectation.times ?? 1
+    let shortage = expected - counts[index]
+
+    // 同じ宛先への期待していないリクエストは、内容が異なるリクエストとして報告する
+    while (shortage > 0) {
+      const position = unexpected.findIndex(request => targets(request, expectation))
+      if (position < 0) break
+      mismatched.push({ expectation, request: unexpected.splice(position, 1)[0] })
+      shortage--
+    }
+    if (shortage > 0) {
+      missing.push({ expectation, expected, actual: counts[index] })
+    }
+  })
+
+  return { missing, unexpected, mismatched }
+}
+
+/**
+ * 検証結果が宣言を満たしているかを判定します。
+ */
+export const isExpectationSatisfied = (result: ExpectationResult): boolean =>
+  result.missing.length === 0 && result.unexpected.length === 0 && result.mismatched.length === 0
@@ -0,0 +1,111 @@
+import { HttpResponse } from 'msw'
+import type { CapturedRequest } from './index'
+import { matchesRequest, type RequestMatcher } from './matchers'
+import { SeededRandom } from './random'
+import type { Scheduler } from './scheduler'
+
+/**
+ * リクエストに注入する障害です。
+ * - `latency`: 後続のハンドラーに処理を渡す前に待機します。`{ min, max }` の場合は範囲内の整数をシードから決めます
+ * - `networkError`: ネットワークエラーにします（`fetch` はrejectされます）
+ * - `status`: 後続のハンドラーに処理を渡さず、指定したステータスのレスポンスを返します
+ */
+export type Fault =
+  | { type: 'latency'; ms: number | { min: number; max: number } }
+  | { type: 'networkError' }
+  | { type: 'status'; status: number; body?: string; headers?: Record<string, string> }
+
+/**
+ * リクエストに実際に注入された障害です。`CapturedRequest.fault` に記録されます。
+ */
+export type AppliedFault =
+  | { type: 'latency'; ms: number }
+  | { type: 'networkError' }
+  | { type: 'status'; status: number }
+
+/**
+ * 障害を注入する規則です。
+ */
+export interface FaultRule {
+  /**
+   * 対象のリクエストの条件です。配列の場合はいずれかにマッチするリクエストが対象です。省略した場合は全てのリクエストが対象です。
+   * 障害はリクエストの到着時に決めるため、判定関数には正規化前の、ボディを読み取る前のリクエスト（`body` を含みません）が渡されます。
+   */
+  match?: RequestMatcher<CapturedRequest> | RequestMatcher<CapturedRequest>[]
+  /**
+   * 対象のリクエストのうち障害を注入する割合です（0から1）。
+   */
+  rate: number
+  fault: Fault
+}
+
+/**
+ * 障害注入の設定です。
+ */
+export interface FaultInjectionOptions {
+  /**
+   * 乱数のシードです。同じシードとリクエストの到着順であれば、同じリクエストに同じ障害が注入されます。
+   */
+  seed: number
+  /**
+   * 障害を注入する規則です。リクエストごとに先頭から評価し、最初に注入が決まった規則の障害のみを注入します。
+   */
+  rules: FaultRule[]
+}
+
+/**
+ * リクエストに注入することが決まった障害です。
+ */
+export interface InjectedFault {
+  fault: AppliedFault
+  /**
+   * 障害を適用し、リクエストハンドラーが返すレスポンスを作成します。
+   * 遅延の場合は待機後にundefinedを返し、後続のハンドラーに処理を渡します。
+   */
+  apply(): Promise<Response | undefined>
+}
+
+/**
+ * シードから障害を決める関数を作成します。
+ * 乱数は対象となった規則ごとに到着順で消費されるため、同じシードと到着順であれば同じ結果になります。
+ * ボディの大きさによって順序が変わらないよう、リクエストの到着時（ボディの読み取り前）に呼び出してください。
+ * @param options 障害注入の設定
+ * @param scheduler 遅延のタイマーに使うスケジューラー
+ * @returns リクエストに注入する障害を返す関数。注入しない場合はundefined
+ */
+export function createFaultInjector(
+  options: FaultInjectionOptions,
+  scheduler: Scheduler
+): (request: CapturedRequest) => InjectedFault | undefined {
+  const random = new SeededRandom(options.seed)
+
+  return (request) => {
+    for (const { match, rate, fault } of options.rules) {
+      const matchers = match === undefined ? [] : Array.isArray(match) ? match : [match]
+      if (matchers.length > 0 && !matchers.some(matcher => matchesRequest(request, matcher))) continue
+      if (random.next() >= rate) continue
+
+      if (fault.type === 'latency') {
+        const ms = typeof fault.ms === 'number' ? fault.ms : random.nextInt(fault.ms.min, fault.ms.max)
+        return {
+          fault: { type: 'latency', ms },
+          apply: async () => {
+            await new Promise<void>(resolve => scheduler.setTimeout(resolve, ms))
+            return undefined
+          }
+        }
+      }
+      if (fault.type === 'status') {
+        return {
+          fault: { type: 'status', status: fault.status },
+          apply: async () => new HttpResponse(fault.body ?? null, { status: fault.status, headers: fault.headers })
+        }
+      }
+      return {
+        fault: { type: 'networkError' },
+        apply: async () => HttpResponse.error()
+      }
+    }
+    return undefined
+  }
+}
@@ -0,0 +1,255 @@
+import { mkdirSync, writeFileSync } from 'node:fs'
+import { dirname } from 'node:path'
+import type { CapturedRequest, CheckpointContext } from './index'
+import { systemScheduler, type Scheduler } from './scheduler'
+
+export interface HarNameValue {
+  name: string
+  value: string
+}
+
+export interface HarPage {
+  startedDateTime: string
+  id: string
+  title: string
+  pageTimings: { onContentLoad?: number; onLoad?: number }
+}
+
+export interface HarRequest {
+  method: string
+  url: string
+  httpVersion: string
+  cookies: HarNameValue[]
+  headers: HarNameValue[]
+  queryString: HarNameValue[]
+  postData?: { mimeType: string; text: string }
+  headersSize: number
+  bodySize: number
+}
+
+export interface HarResponse {
+  status: number
+  statusText: string
+  httpVersion: string
+  cookies: HarNameValue[]
+  headers: HarNameValue[]
+  content: { size: number; mimeType: string; text?: string }
+  redirectURL: string
+  headersSize: number
+  bodySize: number
+}
+
+export interface HarEntry {
+  pageref: string
+  startedDateTime: string
+  time: number
+  request: HarRequest
+  response: HarResponse
+  cache: Record<string, never>
+  timings: { send: number; wait: number; receive: number }
+}
+
+/**
+ * HTTP Archive (HAR 1.2) の型定義です。このライブラリが出力する項目のみを定義しています。
+ */
+export interface Har {
+  log: {
+    version: '1.2'
+    creator: { name: string; version: string }
+    pages: HarPage[]
+    entries: HarEntry[]
+  }
+}
+
+/**
+ * HARに変換するチェックポイントのバッチです。
+ */
+export interface HarBatch {
+  requests: CapturedRequest[]
+  /**
+   * チェックポイントの時刻（ミリ秒）です。ページと各エントリーの開始時刻になります。
+   */
+  time: number
+  /**
+   * ページのタイトルです。省略時は `Checkpoint #<番号>` です。
+   */
+  title?: string
+}
+
+export interface HarSinkOptions {
+  /**
+   * 指定した場合、チェックポイントのたびにHARをこのパスに書き出します。
+   */
+  file?: string
+  /**
+   * ページのタイトルを返す関数です。番号は1から始まります。
+   * 省略時はチェックポイントのラベル、ラベルもなければ `Checkpoint #<番号>` です。
+   */
+  pageTitle?: (index: number, requests: CapturedRequest[]) => string
+  /**
+   * チェックポイントの時刻の取得に使うスケジューラーです。デフォルトは `systemScheduler` です。
+   */
+  scheduler?: Scheduler
+}
+
+const HAR_CREATOR = { name: 'capture-requests-msw', version: '1.0.0' }
+
+const toNameValues = (record: Record<string, string> | undefined): HarNameValue[] =>
+  Object.entries(record ?? {}).map(([name, value]) => ({ name, value }))
+
+const byteLength = (text: string): number => new TextEncoder().encode(text).length
+
+const parseQueryString = (url: string): HarNameValue[] => {
+  try {
+    return [...new URL(url).searchParams].map(([name, value]) => ({ name, value }))
+  } catch {
+    return []
+  }
+}
+
+const toHarRequest = (request: CapturedRequest): HarRequest => {
+  const harRequest: HarRequest = {
+    method: request.method,
+    url: request.url,
+    httpVersion: 'HTTP/1.1',
+    cookies: [],
+    headers: toNameValues(request.headers),
+    queryString: parseQueryString(request.url),
+    headersSize: -1,
+    bodySize: request.body === undefined ? 0 : request.bodyTruncated?.originalLength ?? byteLength(request.body),
+  }
+  if (request.body !== undefined) {
+    harRequest.postData = {
+      mimeType: request.headers?.['content-type'] ?? '',
+      text: request.body,
+    }
+  }
+  return harRequest
+}
+
+const toHarResponse = (request: CapturedRequest): HarResponse => {
+  const response = request.response
+  // レスポンスがない場合はブラウザの開発者ツールと同様にステータス0で表す
+  const harResponse: HarResponse = {
+    status: response?.status ?? 0,
+    statusText: '',
+    httpVersion: 'HTTP/1.1',
+    cookies: [],
+    headers: toNameValues(response?.headers),
+    content: { size: 0, mimeType: response?.headers?.['content-type'] ?? '' },
+    redirectURL: '',
+    headersSize: -1,
+    bodySize: -1,
+  }
+  if (response?.body !== undefined) {
+    const text = typeof response.body === 'string' ? response.body : JSON.stringify(response.body)
+    harResponse.content = {
+      size: byteLength(text),
+      mimeType: harResponse.content.mimeType || (typeof response.body === 'string' ? 'text/plain' : 'application/json'),
+      text,
+    }
+  }
+  return harResponse
+}
+
+/**
+ * チェックポイントのバッチをHAR 1.2に変換します。各バッチが1つのページになります。
+ * @param batches 変換するバッチ
+ * @returns HAR
+ */
+export function toHar(batches: HarBatch[]): Har {
+  const pages: HarPage[] = []
+  const entries: HarEntry[] = []
+
+  batches.forEach((batch, index) => {
+    const id = `page_${index + 1}`
+    const startedDateTime = new Date(batch.time).toISOString()
+    pages.push({
+      startedDateTime,
+      id,
+      title: batch.title ?? `Checkpoint #${index + 1}`,
+      pageTimings: {},
+    })
+    for (const request of batch.requests) {
+      // タイミングの情報がある場合は、リクエストの到着時刻とレスポンスまでの時間を使う
+      const duration = request.timing?.duration ?? 0
+      entries.push({
+        pageref: id,
+        startedDateTime: request.timing ? new Date(request.timing.startedAt).toISOString() : startedDateTime,
+        time: duration,
+        request: toHarRequest(request),
+        response: toHarResponse(request),
+        cache: {},
+        timings: { send: 0, wait: duration, receive: 0 },
+      })
+    }
+  })
+
+  return { log: { version: '1.2', creator: HAR_CREATOR, pages, entries } }
+}
+
+const fromNameValues = (values: HarNameValue[]): Record<string, string> | undefined =>
+  values.length === 0
+    ? undefined
+    : Object.fromEntries(values.map(({ name, value }) => [name.toLowerCase(), value]))
+
+/**
+ * HARのエントリーをキャプチャしたリクエストの形に戻します。ステータス0のエントリーはレスポンスなしとして扱います。
+ * @param har 変換するHAR
+ * @returns エントリーの順のリクエスト
+ */
+export function fromHar(har: Har): CapturedRequest[] {
+  return har.log.entries.map(({ request, response }) => {
+    const captured: CapturedRequest = { method: request.method, url: request.url }
+    if (request.postData !== undefined) captured.body = request.postData.text
+    const headers = fromNameValues(request.headers)
+    if (headers) captured.headers = headers
+
+    if (response.status !== 0) {
+      captured.response = { status: response.status }
+      const responseHeaders = fromNameValues(response.headers)
+      if (responseHeaders) captured.response.headers = responseHeaders
+      const { text, mimeType } = response.content
+      if (text !== undefined) {
+        captured.response.body = text
+        if (mimeType.includes('json')) {
+          try {
+            captured.response.body = JSON.parse(text)
+          } catch {
+            // パースできない場合はテキストのまま保持
+          }
+        }
+      }
+    }
+    return captured
+  })
+}
+
+/**
+ * チェックポイントのバッチをHARとして蓄積するシンクを作成します。
+ * @param options 設定オプション
+ * @returns `createRequestsCaptureHandler` の `handler` に渡すハンドラと、蓄積したHARを返す関数を含むオブジェクト
+ */
+export function createHarSink(options: HarSinkOptions = {}) {
+  const { file, pageTitle, scheduler = systemScheduler } = options
+  const batches: HarBatch[] = []
+
+  /**
+   * これまでのバッチをHARに変換します。
+   */
+  const har = (): Har => toHar(batches)
+
+  const handler = (requests: CapturedRequest[], context?: CheckpointContext): void => {
+    batches.push({
+      requests,
+      time: scheduler.now(),
+      title: pageTitle?.(batches.length + 1, requests) ?? context?.label,
+    })
+    if (file) {
+      mkdirSync(dirname(file), { recursive: true })
+      writeFileSync(file, `${JSON.stringify(har(), null, 2)}\n`)
+    }
+  }
+
+  return { handler, har }
+}
@@ -0,0 +1,52 @@
+/**
+ * ヘッダーのキャプチャ方法を定義するインターフェースです。
+ */
+export interface HeaderCaptureOptions {
+  /**
+   * 指定した場合、このリストに含まれるヘッダーのみをキャプチャします（大文字小文字は区別しません）。
+   */
+  allow?: string[]
+  /**
+   * このリストに含まれるヘッダーはキャプチャしません（大文字小文字は区別しません）。
+   */
+  deny?: string[]
+  /**
+   * 値をプレースホルダーに置き換えるヘッダーです。
+   * デフォルトは `authorization` と `cookie` です。
+   */
+  redact?: string[]
+  /**
+   * 伏せ字にしたヘッダーの値として使う文字列です。デフォルトは `<REDACTED>` です。
+   */
+  placeholder?: string
+}
+
+export const DEFAULT_REDACTED_HEADERS = ['authorization', 'cookie']
+export const DEFAULT_REDACTED_PLACEHOLDER = '<REDACTED>'
+
+const toLowerSet = (names: string[]): Set<string> => new Set(names.map(name => name.toLowerCase()))
+
+/**
+ * ヘッダーをポリシーに従って抽出します。
+ * ヘッダー名は小文字化され、名前順にソートされた状態で返されます。
+ * @param headers リクエストのヘッダー
+ * @param options ヘッダーのキャプチャ設定
+ * @returns ヘッダー名と値のオブジェクト
+ */
+export function captureHeaders(headers: Headers, options: HeaderCaptureOptions): Record<string, string> {
+  const allow = options.allow ? toLowerSet(options.allow) : undefined
+  const deny = toLowerSet(options.deny ?? [])
+  const redact = toLowerSet(options.redact ?? DEFAULT_REDACTED_HEADERS)
+  const placeholder = options.placeholder ?? DEFAULT_REDACTED_PLACEHOLDER
+
+  const entries: [string, string][] = []
+  headers.forEach((value, key) => {
+    const name = key.toLowerCase()
+    if (allow && !allow.has(name)) return
+    if (deny.has(name)) return
+    entries.push([name, redact.has(name) ? placeholder : value])
+  })
+
+  entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  return Object.fromEntries(entries)
+}
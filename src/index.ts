@@ -1,119 +1,1021 @@
+import { decodeBody, readBody, shouldCaptureBody, type BodyCaptureOptions, type BodyDecodeOptions, type BodyTruncation, type DecodedBody } from './body'
+import { CaptureDisposedError, CaptureHandlerError, ExpectationError, type CheckpointErrorPolicy, type CheckpointFailure } from './errors'
+import { isExpectationSatisfied, verifyExpectations, type ExpectedRequest } from './expectations'
+import { createFaultInjector, type AppliedFault, type FaultInjectionOptions, type InjectedFault } from './faults'
+import { captureHeaders, type HeaderCaptureOptions } from './headers'
+import { isRequestIncluded, matchesRequest, type RequestFilter, type RequestMatcher } from './matchers'
+import { normalizeRequest, type RequestNormalizer } from './normalizers'
+import { SeededRandom } from './random'
+import { systemScheduler, type Scheduler } from './scheduler'
+import { sortRequests, type RequestSortOption } from './sort'
+import { captureResponse, type CapturedResponse, type ResponseCaptureOptions, type ResponseEventSource } from './responses'
+
+export {
+  captureMatchers,
+  isEqual,
+  matchesExpectation,
+  type CaptureMatcherContext,
+  type CaptureMatcherResult,
+  type CaptureMatchers,
+  type RequestExpectation
+} from './assertions'
+export {
+  decodeBody,
+  type BodyCaptureOptions,
+  type BodyDecodeOptions,
+  type BodyDecoder,
+  type BodyMethodPolicy,
+  type BodyTruncation,
+  type DecodedBody,
+  type MultipartPart
+} from './body'
+export {
+  createChannelCaptureHandler,
+  type CaptureChannelOptions,
+  type CreateChannelCaptureHandlerOptions
+} from './channels'
+export {
+  CaptureDisposedError,
+  CaptureHandlerError,
+  ExpectationError,
+  ObsoleteSnapshotError,
+  SnapshotMismatchError,
+  type CheckpointErrorPolicy,
+  type CheckpointFailure
+} from './errors'
+export {
+  isExpectationSatisfied,
+  verifyExpectations,
+  type ExpectationResult,
+  type ExpectedRequest,
+  type MismatchedRequest,
+  type MissingRequest
+} from './expectations'
+export { createFaultInjector, type AppliedFault, type Fault, type FaultInjectionOptions, type FaultRule, type InjectedFault } from './faults'
+export {
+  createHarSink,
+  fromHar,
+  toHar,
+  type Har,
+  type HarBatch,
+  type HarEntry,
+  type HarNameValue,
+  type HarPage,
+  type HarRequest,
+  type HarResponse,
+  type HarSinkOptions
+} from './har'
+export { captureHeaders, type HeaderCaptureOptions } from './headers'
+export { createJsonlSink, parseJsonl, toJsonl, type JsonlSinkOptions } from './jsonl'
+export {
+  isRequestIncluded,
+  matchesRequest,
+  type RequestFilter,
+  type RequestLike,
+  type RequestMatcher,
+  type RequestPattern
+} from './matchers'
+export {
+  aliasOrigins,
+  canonicalizeJson,
+  maskIsoDates,
+  maskUuids,
+  normalizeRequest,
+  sortQueryParams,
+  stripQueryParams,
+  stripTiming,
+  type RequestNormalizer
+} from './normalizers'
+export { createReplayHandlers, parseRecording, type Recording, type ReplayOptions } from './replay'
+export { createVirtualScheduler, systemScheduler, type Scheduler, type VirtualScheduler } from './scheduler'
+export {
+  createSnapshotHandler,
+  readSnapshotMode,
+  SNAPSHOT_MODE_ENV,
+  type SnapshotHandler,
+  type SnapshotHandlerOptions,
+  type SnapshotMode
+} from './snapshots'
+export { compareRequests, sortRequests, type RequestComparator, type RequestSortOption } from './sort'
+export { captureResponse, type CapturedResponse, type ResponseCaptureOptions, type ResponseEventSource } from './responses'
+
 export interface CapturedRequest {
   method: string
   url: string
   body?: string
+  /**
+   * ボディが `maxBytes` を超えて切り詰められた場合の情報。
+   */
+  bodyTruncated?: BodyTruncation
+  /**
+   * Content-Typeに応じてデコードされたボディ（`decodeBody` オプション指定時のみ）。
+   */
+  decodedBody?: DecodedBody
+  /**
+   * キャプチャされたヘッダー（`headers` オプション指定時のみ）。
+   * ヘッダー名は小文字化され、名前順にソートされています。
+   */
+  headers?: Record<string, string>
+  /**
+   * 後続のハンドラーまたは実際のネットワークが返したレスポンス（`responses` オプション指定時のみ）。
+   */
+  response?: CapturedResponse
+  /**
+   * 到着順とタイミングの情報（`timing` オプション指定時のみ）。
+   */
+  timing?: RequestTiming
+  /**
+   * 注入された障害（`faults` オプション指定時のみ）。
+   */
+  fault?: AppliedFault
 }
 
-export type CapturedRequestsHandler = (requests: CapturedRequest[]) => void
+/**
+ * リクエストの到着順とタイミングの情報です。
+ */
+export interface RequestTiming {
+  /**
+   * キャプチャハンドラーに到着した順の通し番号です。1から始まります。
+   */
+  sequence: number
+  /**
+   * リクエストが到着した時刻（ミリ秒、`scheduler.now()`）です。
+   */
+  startedAt: number
+  /**
+   * 到着からレスポンスが確定するまでのミリ秒数です（レスポンスを対応付けた場合のみ）。
+   */
+  duration?: number
+  /**
+   * リクエストの処理中に同時に処理されていたリクエスト数の最大値です。自身を含みます（レスポンスを対応付けた場合のみ）。
+   */
+  concurrency?: number
+}
 
+/**
+ * チェックポイントが実行された理由です。
+ * - `manual`: `checkpoint()` の呼び出し
+ * - `timeout`: `timeoutMs` による自動チェックポイント
+ * - `maxWait`: `maxWaitMs` による自動チェックポイント
+ * - `size`: バッチの大きさの上限（`maxRequests` / `maxBodyBytes`）による自動チェックポイント
+ * - `match`: `flushOn` の条件にマッチしたリクエストによる自動チェックポイント
+ * - `dispose`: キャプチャの終了処理
+ */
+export type CheckpointTrigger = 'manual' | 'timeout' | 'maxWait' | 'size' | 'match' | 'dispose'
+
+/**
+ * ハンドラにバッチと共に渡されるチェックポイントの情報です。
+ */
+export interface CheckpointContext {
+  /**
+   * ハンドラに渡されたバッチの通し番号です。1から始まります。
+   */
+  sequence: number
+  /**
+   * `checkpoint(label)` で指定したラベルです。
+   */
+  label?: string
+  trigger: CheckpointTrigger
+  /**
+   * バッチで最初に到着したリクエストの時刻（ミリ秒、`scheduler.now()`）です。
+   */
+  firstRequestAt: number
+  /**
+   * バッチで最後に到着したリクエストの時刻（ミリ秒、`scheduler.now()`）です。
+   */
+  lastRequestAt: number
+}
+
+/**
+ * キャプチャしたリクエストを処理するハンドラです。Promiseを返した場合、チェックポイントはその完了を待ちます。
+ */
+export type CapturedRequestsHandler =
+  | ((requests: CapturedRequest[], context: CheckpointContext) => void)
+  | ((requests: CapturedRequest[], context: CheckpointContext) => Promise<void>)
+
+/**
+ * waitForCheckpointで待機中のレスポンスを解放する順序です。
+ * - `arrival`: 到着順
+ * - `reverse`: 到着の逆順
+ * - `{ seed }`: シードから決まる疑似ランダムな順序。同じシードと到着順であれば同じ順序になります
+ */
+export type ReleaseOrder = 'arrival' | 'reverse' | { seed: number }
+
+/**
+ * 自動チェックポイントの設定です。複数の条件を組み合わせた場合、最初に満たした条件でチェックポイントを作成します。
+ */
 export interface CheckpointOptions {
   /**
    * リクエストがない状態がこのミリ秒数続いた場合に自動でチェックポイントを作成します。
    */
-  timeoutMs: number
+  timeoutMs?: number
+  /**
+   * バッチの最初のリクエストからこのミリ秒数が経過した場合に、リクエストが続いていても自動でチェックポイントを作成します。
+   */
+  maxWaitMs?: number
+  /**
+   * バッチのリクエスト数がこの数に達した場合に自動でチェックポイントを作成します。
+   */
+  maxRequests?: number
+  /**
+   * バッチのボディの合計バイト数がこの値以上になった場合に自動でチェックポイントを作成します。
+   */
+  maxBodyBytes?: number
+  /**
+   * いずれかの条件にマッチするリクエストをキャプチャした場合に、そのリクエストを含めて自動でチェックポイントを作成します。
+   * 判定関数には正規化前のリクエストが渡されます。
+   */
+  flushOn?: RequestMatcher<CapturedRequest> | RequestMatcher<CapturedRequest>[]
   /**
    * trueの場合、チェックポイントが実行されるまでレスポンスを待機します。
+   * リクエストの条件または判定関数を指定した場合、いずれかにマッチするリクエストのみを待機させ、
+   * それ以外はキャプチャした上ですぐに後続のハンドラーに処理を渡します。判定関数には正規化前のリクエストが渡されます。
    */
-  waitForCheckpoint?: boolean
+  waitForCheckpoint?: boolean | RequestMatcher<CapturedRequest> | RequestMatcher<CapturedRequest>[]
+  /**
+   * 待機中のレスポンスを解放する順序です。チェックポイント・`releaseAll()`・`releaseNext()` に適用されます。デフォルトは `arrival` です。
+   */
+  releaseOrder?: ReleaseOrder
 }
 
 export interface CreateRequestsCaptureHandlerOptions {
   handler: CapturedRequestsHandler
   options?: CheckpointOptions
+  /**
+   * キャプチャするリクエストの条件です。
+   * 除外されたリクエストはバッファに追加されず、自動チェックポイントのタイマーもリセットしません。
+   */
+  filter?: RequestFilter
+  /**
+   * 指定した場合、リクエストヘッダーをキャプチャします。
+   */
+  headers?: HeaderCaptureOptions
+  /**
+   * ボディを読み取るメソッドと最大サイズの設定です。
+   */
+  body?: BodyCaptureOptions
+  /**
+   * 指定した場合、リクエストボディをContent-Typeに応じてデコードします。
+   */
+  decodeBody?: BodyDecodeOptions
+  /**
+   * 指定した場合、各リクエストのレスポンスをキャプチャします。
+   * `observe(server.events)` でMSWのイベントを購読する必要があります。
+   */
+  responses?: ResponseCaptureOptions
+  /**
+   * チェックポイントでソートする前に、各リクエストへ順番に適用する正規化関数です。
+   */
+  normalize?: RequestNormalizer[]
+  /**
+   * バッチの並び順です。比較関数、または到着順を保持する `'arrival'` を指定できます。
+   * デフォルトはURL、メソッド、ボディ、ヘッダーの順で比較する `compareRequests` です。
+   */
+  sort?: RequestSortOption
+  /**
+   * ハンドラがエラーを投げた場合の扱いです。デフォルトは `rethrow` です。
+   * どの場合もバッチはリセットされ、待機中のレスポンスは解放されます。
+   */
+  onError?: CheckpointErrorPolicy
+  /**
+   * 自動チェックポイントや待機処理に使うスケジューラーです。
+   * デフォルトはグローバルの `setTimeout` を使う `systemScheduler` です。
+   */
+  scheduler?: Scheduler
+  /**
+   * trueの場合、各リクエストに到着順とタイミングの情報（`timing`）を記録します。
+   */
+  timing?: boolean
+  /**
+   * `dispose()` の後に到着したリクエストの扱いです。
+   * - `passthrough`: キャプチャせずに後続のハンドラーに処理を渡します（デフォルト）
+   * - `throw`: `CaptureDisposedError` を投げます（MSWは500レスポンスを返します）
+   */
+  afterDispose?: 'passthrough' | 'throw'
+  /**
+   * 指定した場合、シードに従って条件にマッチするリクエストの一部に遅延・ネットワークエラー・エラーレスポンスを注入します。
+   * 注入した障害は各リクエストの `fault` に記録されます。
+   */
+  faults?: FaultInjectionOptions
+}
+
+/**
+ * waitForCheckpointで待機中のリクエストと、そのレスポンスを解放する関数です。
+ */
+interface HeldResponse {
+  request: CapturedRequest
+  release: () => void
 }
 
 /**
  * HTTPリクエストをキャプチャするためのハンドラー関数を作成します。
  * @param options 設定オプション
- * @returns handler関数とcheckpoint関数を含むオブジェクト
+ * @returns handler関数、checkpoint関数、待機用の関数、observe関数、失敗の記録を含むオブジェクト
  */
 export function createRequestsCaptureHandler(options: CreateRequestsCaptureHandlerOptions) {
   const currentBatch: CapturedRequest[] = []
-  const { handler, options: autoCheckpoint } = options
-  let timeoutId: NodeJS.Timeout | undefined
-  let pendingResponses: (() => void)[] = []
+  const {
+    handler,
+    options: autoCheckpoint,
+    filter,
+    headers: headerOptions,
+    body: bodyCaptureOptions = {},
+    decodeBody: bodyOptions,
+    responses: responseOptions,
+    normalize: normalizers = [],
+    sort,
+    onError = 'rethrow',
+    scheduler = systemScheduler,
+    timing: recordTiming = false,
+    afterDispose = 'passthrough',
+    faults
+  } = options
+  let timeoutId: unknown
+  let maxWaitTimeoutId: unknown
+  // バッチのボディの合計バイト数（maxBodyBytes指定時のみ集計する）
+  let batchBodyBytes = 0
+  // waitForCheckpointで待機中のリクエストと、そのレスポンスを解放する関数
+  let pendingResponses: HeldResponse[] = []
+  // チェックポイントがバッチと共に取り出し、まだ解放していないレスポンスの数
+  let releasingResponses = 0
+  const releaseLog: CapturedRequest[] = []
+  let observedSources = 0
+  // レスポンス待ちのリクエスト（requestIdごと）と、その完了を表すPromise
+  const awaitingResponses = new Map<string, (response?: Response) => void>()
+  // request:end の後、レスポンスを待つ上限のタイマー（requestIdごと）
+  const settleTimeouts = new Map<string, unknown>()
+  const settlements = new WeakMap<CapturedRequest, Promise<void>>()
+  const unsettledRequests = new WeakSet<CapturedRequest>()
+  // リクエストの到着時刻と到着順
+  const arrivalTimes = new WeakMap<CapturedRequest, number>()
+  const arrivalSequences = new WeakMap<CapturedRequest, number>()
+  const failures: CheckpointFailure[] = []
+  // nextCheckpoint() と waitForIdle() の待機者
+  let checkpointWaiters: { resolve: (requests: CapturedRequest[]) => void; reject: (error: unknown) => void }[] = []
+  // nextCheckpoint() の待機者に渡したエラー
+  const deliveredErrors = new WeakSet<object>()
+  const idleWaiters = new Set<{ quietMs: number; resolve: () => void; timeoutId?: unknown }>()
+  let activeHandlers = 0
+  let unsettledResponses = 0
+  let runningCheckpoints = 0
+  // 次のチェックポイントで検証する宣言
+  let declaredExpectations: ExpectedRequest[] | undefined
+  let handledBatches = 0
+  let disposed = false
+  // キャプチャハンドラーに到着したリクエストの数と、レスポンス待ちのリクエストごとの同時処理数の最大値
+  let arrivals = 0
+  const inFlight = new Set<{ peak: number }>()
+
+  const flushOn = autoCheckpoint?.flushOn === undefined
+    ? []
+    : Array.isArray(autoCheckpoint.flushOn) ? autoCheckpoint.flushOn : [autoCheckpoint.flushOn]
+  const holdOn = autoCheckpoint?.waitForCheckpoint
+
+  /**
+   * リクエストをチェックポイントまで待機させるかを判定します。
+   */
+  const shouldHold = (request: CapturedRequest): boolean => {
+    if (holdOn === undefined || typeof holdOn === 'boolean') return holdOn === true
+    const matchers = Array.isArray(holdOn) ? holdOn : [holdOn]
+    return matchers.some(matcher => matchesRequest(request, matcher))
+  }
+  const textEncoder = new TextEncoder()
+  const releaseOrder = autoCheckpoint?.releaseOrder ?? 'arrival'
+  const injectFault = faults ? createFaultInjector(faults, scheduler) : undefined
+  const random = typeof releaseOrder === 'object' ? new SeededRandom(releaseOrder.seed) : undefined
 
   /**
    * 自動チェックポイントのタイマーを開始します。
+   * `timeoutMs` のタイマーはリクエストのたびに開始し直し、`maxWaitMs` のタイマーはバッチの最初のリクエストでのみ開始します。
    */
   const startAutoCheckpointTimer = (): void => {
-    if (!autoCheckpoint) return
-    
-    clearAutoCheckpointTimer()
-    timeoutId = setTimeout(() => {
-      checkpoint()
-    }, autoCheckpoint.timeoutMs)
+    if (autoCheckpoint?.timeoutMs !== undefined) {
+      if (timeoutId !== undefined) {
+        scheduler.clearTimeout(timeoutId)
+      }
+      timeoutId = scheduler.setTimeout(() => runAutoCheckpoint('timeout'), autoCheckpoint.timeoutMs)
+    }
+
+    if (autoCheckpoint?.maxWaitMs !== undefined && maxWaitTimeoutId === undefined) {
+      maxWaitTimeoutId = scheduler.setTimeout(() => runAutoCheckpoint('maxWait'), autoCheckpoint.maxWaitMs)
+    }
   }
 
   /**
    * 自動チェックポイントのタイマーをクリアします。
    */
   const clearAutoCheckpointTimer = (): void => {
-    if (timeoutId) {
-      clearTimeout(timeoutId)
+    if (timeoutId !== undefined) {
+      scheduler.clearTimeout(timeoutId)
       timeoutId = undefined
     }
+    if (maxWaitTimeoutId !== undefined) {
+      scheduler.clearTimeout(maxWaitTimeoutId)
+      maxWaitTimeoutId = undefined
+    }
+  }
+
+  /**
+   * リクエストをバッチの到着順の位置に追加します。
+   * ボディの読み取りは非同期のため、読み取りが終わった順ではなく到着した順にバッチを保ちます。
+   */
+  const insertByArrival = (request: CapturedRequest): void => {
+    const sequence = arrivalSequences.get(request) ?? 0
+    let index = currentBatch.length
+    while (index > 0 && (arrivalSequences.get(currentBatch[index - 1]) ?? 0) > sequence) {
+      index--
+    }
+    currentBatch.splice(index, 0, request)
+    if (autoCheckpoint?.maxBodyBytes !== undefined && request.body !== undefined) {
+      batchBodyBytes += textEncoder.encode(request.body).length
+    }
+  }
+
+  /**
+   * 追加したリクエストとバッチの大きさから、すぐにチェックポイントを作成する理由を返します。
+   */
+  const findImmediateTrigger = (request: CapturedRequest): CheckpointTrigger | undefined => {
+    if (flushOn.some(matcher => matchesRequest(request, matcher))) return 'match'
+    if (autoCheckpoint?.maxRequests !== undefined && currentBatch.length >= autoCheckpoint.maxRequests) return 'size'
+    if (autoCheckpoint?.maxBodyBytes !== undefined && batchBodyBytes >= autoCheckpoint.maxBodyBytes) return 'size'
+    return undefined
+  }
+
+  /**
+   * 待機中のレスポンスを解放し、解放した順に記録します。
+   */
+  const releaseHeld = ({ request, release }: HeldResponse): CapturedRequest => {
+    releaseLog.push(request)
+    release()
+    return request
+  }
+
+  /**
+   * レスポンスを `releaseOrder` の順に解放します。
+   */
+  const releaseResponses = (responses: HeldResponse[]): void => {
+    if (releaseOrder === 'reverse') {
+      responses.reverse()
+    }
+    const ordered = random ? random.shuffle(responses) : responses
+    ordered.forEach(releaseHeld)
+  }
+
+  /**
+   * 待機中のレスポンスを `releaseOrder` の順に全て解放します。
+   */
+  const releasePendingResponses = (): void => {
+    const responses = pendingResponses
+    pendingResponses = []
+    releaseResponses(responses)
+  }
+
+  /**
+   * バッチのリクエストの待機中のレスポンスを取り出し、それらのみを一度だけ解放する関数を返します。
+   * 取り出したレスポンスは解放されるまで `getHeldCount()` に数えられます。
+   * ハンドラの実行中に到着したリクエストは次のバッチに属するため、この関数では解放されません。
+   */
+  const takePendingResponses = (batch: CapturedRequest[]): (() => void) => {
+    const requests = new Set(batch)
+    const taken = pendingResponses.filter(({ request }) => requests.has(request))
+    pendingResponses = pendingResponses.filter(({ request }) => !requests.has(request))
+    releasingResponses += taken.length
+    return () => {
+      const responses = taken.splice(0)
+      releasingResponses -= responses.length
+      releaseResponses(responses)
+    }
+  }
+
+  /**
+   * 処理中のリクエストとバッファ内のリクエストがなく、チェックポイントも実行中でないかを判定します。
+   */
+  const isIdle = (): boolean =>
+    activeHandlers === 0 && unsettledResponses === 0 && runningCheckpoints === 0 && currentBatch.length === 0
+
+  /**
+   * 状態の変化に合わせて、waitForIdle() の待機者の静止タイマーを開始し直します。
+   */
+  const checkIdle = (): void => {
+    idleWaiters.forEach(waiter => {
+      if (waiter.timeoutId !== undefined) {
+        scheduler.clearTimeout(waiter.timeoutId)
+        waiter.timeoutId = undefined
+      }
+      if (!isIdle()) return
+
+      waiter.timeoutId = scheduler.setTimeout(() => {
+        if (!isIdle()) return
+        idleWaiters.delete(waiter)
+        waiter.resolve()
+      }, waiter.quietMs)
+    })
+  }
+
+  /**
+   * リクエストを正規化し、ソートします。
+   */
+  const prepare = (batch: CapturedRequest[]): CapturedRequest[] => {
+    const normalizedRequests = batch.map(request => normalizeRequest(request, normalizers))
+    return sortRequests(normalizedRequests, sort)
+  }
+
+  /**
+   * ハンドラのエラーを記録し、`onError` の指定に従って処理します。
+   */
+  const handleError = (error: unknown, requests: CapturedRequest[]): Promise<void> => {
+    const failure: CheckpointFailure = { error, requests }
+    failures.push(failure)
+
+    if (onError === 'rethrow') {
+      return Promise.reject(new CaptureHandlerError(failure))
+    }
+    if (onError === 'log') {
+      console.error(new CaptureHandlerError(failure))
+    } else if (typeof onError === 'function') {
+      onError(failure)
+    }
+    return Promise.resolve()
+  }
+
+  /**
+   * nextCheckpoint() の待機者を処理したバッチで解決します。
+   */
+  const resolveCheckpointWaiters = (requests: CapturedRequest[]): void => {
+    const waiters = checkpointWaiters
+    checkpointWaiters = []
+    waiters.forEach(waiter => waiter.resolve(requests))
+  }
+
+  /**
+   * nextCheckpoint() の待機者をチェックポイントのエラーでrejectします。
+   */
+  const rejectCheckpointWaiters = (error: unknown): void => {
+    const waiters = checkpointWaiters
+    checkpointWaiters = []
+    waiters.forEach(waiter => waiter.reject(error))
+    if (waiters.length > 0 && typeof error === 'object' && error !== null) {
+      deliveredErrors.add(error)
+    }
+  }
+
+  /**
+   * ハンドラを呼び出します。同期的なハンドラはこの場で完了させ、
+   * 非同期なハンドラは完了を待ってからバッチの待機中のレスポンスを解放します。
+   * エラーの有無にかかわらず、バッチの待機中のレスポンスは必ず解放されます。
+   */
+  const invokeHandler = (
+    requests: CapturedRequest[],
+    context: CheckpointContext,
+    releaseBatch: () => void
+  ): Promise<void> => {
+    let result: void | Promise<void>
+    try {
+      result = handler(requests, context)
+    } catch (error) {
+      releaseBatch()
+      return handleError(error, requests)
+    }
+
+    if (result instanceof Promise) {
+      return result
+        .finally(releaseBatch)
+        .catch(error => handleError(error, requests))
+    }
+
+    releaseBatch()
+    return Promise.resolve()
+  }
+
+  /**
+   * バッチのチェックポイントの情報を作成します。
+   */
+  const createContext = (batch: CapturedRequest[], trigger: CheckpointTrigger, label?: string): CheckpointContext => {
+    const times = batch.map(request => arrivalTimes.get(request) ?? scheduler.now())
+    return {
+      sequence: ++handledBatches,
+      label,
+      trigger,
+      firstRequestAt: Math.min(...times),
+      lastRequestAt: Math.max(...times),
+    }
+  }
+
+  /**
+   * バッチを正規化・ソートしてハンドラを呼び出します。空のバッチではハンドラを呼び出しません。
+   * 宣言がある場合はバッチを検証し、宣言と一致しなければハンドラの完了後に `ExpectationError` でrejectします。
+   * 失敗した場合は `nextCheckpoint()` の待機者も同じエラーでrejectします。
+   */
+  const dispatch = (
+    batch: CapturedRequest[],
+    trigger: CheckpointTrigger,
+    releaseBatch: () => void,
+    label?: string
+  ): Promise<void> => {
+    const requests = prepare(batch)
+    const expectations = declaredExpectations
+    declaredExpectations = undefined
+
+    let completion: Promise<void>
+    if (requests.length === 0) {
+      releaseBatch()
+      completion = Promise.resolve()
+    } else {
+      completion = invokeHandler(requests, createContext(batch, trigger, label), releaseBatch)
+    }
+
+    const result = expectations === undefined ? undefined : verifyExpectations(requests, expectations)
+    return completion
+      .then(() => {
+        if (result && !isExpectationSatisfied(result)) {
+          throw new ExpectationError(result)
+        }
+      })
+      .then(
+        () => {
+          if (requests.length > 0) resolveCheckpointWaiters(requests)
+        },
+        (error) => {
+          rejectCheckpointWaiters(error)
+          throw error
+        }
+      )
   }
 
   /**
    * 蓄積されたリクエストを指定されたハンドラで処理し、バッチをリセットします。
-   * リクエストはURLとメソッドでソートされてからハンドラに渡されます。
+   * リクエストは正規化され、`sort` オプションに従ってソートされてからハンドラに渡されます。
+   * レスポンスのキャプチャが有効な場合は、待機中のレスポンスを解放した後、
+   * 全てのレスポンスが確定してからハンドラを呼び出します。
+   * @param trigger チェックポイントが実行された理由
+   * @param label チェックポイントのラベル
+   * @returns ハンドラの処理が完了したときに解決されるPromise
    */
-  const checkpoint = (): void => {
+  const runCheckpoint = (trigger: CheckpointTrigger, label?: string): Promise<void> => {
     clearAutoCheckpointTimer()
-    
-    if (currentBatch.length > 0) {
-      const sortedRequests = [...currentBatch].sort((a, b) => {
-        if (a.url === b.url) {
-          return a.method.localeCompare(b.method)
-        }
-        return a.url.localeCompare(b.url)
+
+    const batch = currentBatch.splice(0)
+    const releaseBatch = takePendingResponses(batch)
+    batchBodyBytes = 0
+    runningCheckpoints++
+
+    let completion: Promise<void>
+    if (responseOptions) {
+      releaseBatch()
+      completion = Promise.all(batch.map(request => settlements.get(request))).then(() => dispatch(batch, trigger, releaseBatch, label))
+    } else {
+      completion = dispatch(batch, trigger, releaseBatch, label)
+    }
+
+    return completion.finally(() => {
+      runningCheckpoints--
+      checkIdle()
+    })
+  }
+
+  /**
+   * 自動チェックポイントを実行します。呼び出し元がいないため、失敗は `nextCheckpoint()` の待機者に渡し、
+   * 待機者がいない場合は未処理のrejectionにせずに `console.error` に出力します。
+   * @returns チェックポイントの完了時に解決されるPromise（rejectされません）。スケジューラーはタイマーの完了としてこれを待ちます。
+   * レスポンスの確定を待つ場合は、確定が後のタイマー（遅延の注入や `settleTimeoutMs`）に依存しうるためundefinedを返します
+   */
+  const runAutoCheckpoint = (trigger: CheckpointTrigger): Promise<void> | undefined => {
+    const waitsForResponses = currentBatch.some(request => unsettledRequests.has(request))
+    const completion = runCheckpoint(trigger).catch((error: unknown) => {
+      if (typeof error === 'object' && error !== null && deliveredErrors.has(error)) return
+      console.error(error)
+    })
+    return waitsForResponses ? undefined : completion
+  }
+
+  /**
+   * 手動でチェックポイントを実行し、蓄積されたリクエストをハンドラで処理します。
+   * @param label ハンドラに渡されるチェックポイントの情報に含めるラベル
+   * @returns ハンドラの処理が完了したときに解決されるPromise
+   */
+  const checkpoint = (label?: string): Promise<void> => runCheckpoint('manual', label)
+
+  /**
+   * 次のチェックポイントで期待するリクエストを宣言します。
+   * チェックポイントは正規化・ソート後のバッチを宣言と照合し、不足・想定外・内容の異なるリクエストがあれば
+   * `ExpectationError` でrejectします。宣言は次のチェックポイントでのみ使われます。
+   * @param expectations 期待するリクエストの宣言
+   */
+  const expectRequests = (expectations: ExpectedRequest[]): void => {
+    declaredExpectations = expectations
+  }
+
+  /**
+   * 次に空でないバッチがハンドラで処理されるまで待機します。
+   * @returns ハンドラに渡されたリクエスト（正規化・ソート済み）
+   */
+  const nextCheckpoint = (): Promise<CapturedRequest[]> => {
+    if (disposed) {
+      return Promise.reject(new CaptureDisposedError('キャプチャハンドラーは破棄されています'))
+    }
+    return new Promise((resolve, reject) => {
+      checkpointWaiters.push({ resolve, reject })
+    })
+  }
+
+  /**
+   * 処理中のリクエストがなく、バッファが空になった状態が `quietMs` 続くまで待機します。
+   * バッファは自動チェックポイントまたは手動の `checkpoint()` で空になります。
+   * @param options.quietMs 静止状態が続く必要があるミリ秒数（デフォルト: 0）
+   */
+  const waitForIdle = ({ quietMs = 0 }: { quietMs?: number } = {}): Promise<void> => {
+    return new Promise((resolve) => {
+      idleWaiters.add({ quietMs, resolve })
+      checkIdle()
+    })
+  }
+
+  /**
+   * waitForCheckpointで待機中のレスポンスを、チェックポイントを実行せずに全て解放します。
+   * バッファ内のリクエストはそのまま残ります。
+   * @returns 解放したレスポンスの数
+   */
+  const releaseAll = (): number => {
+    const count = pendingResponses.length
+    releasePendingResponses()
+    return count
+  }
+
+  /**
+   * waitForCheckpointで待機中のレスポンスを `releaseOrder` の順で1件だけ解放します。
+   * バッファ内のリクエストはそのまま残ります。
+   * @returns 解放したリクエスト（正規化前）。待機中のリクエストがない場合はundefined
+   */
+  const releaseNext = (): CapturedRequest | undefined => {
+    if (pendingResponses.length === 0) return undefined
+
+    const last = pendingResponses.length - 1
+    const index = releaseOrder === 'reverse' ? last : random ? random.nextInt(0, last) : 0
+    return releaseHeld(pendingResponses.splice(index, 1)[0])
+  }
+
+  /**
+   * バッファ内のリクエストをハンドラに渡さずに破棄し、自動チェックポイントのタイマーを止めます。
+   * 破棄したリクエストのうちwaitForCheckpointで待機中のものは解放されます。
+   * @returns 破棄したリクエスト（正規化・ソート前）
+   */
+  const discard = (): CapturedRequest[] => {
+    clearAutoCheckpointTimer()
+    const batch = currentBatch.splice(0)
+    batchBodyBytes = 0
+    takePendingResponses(batch)()
+    checkIdle()
+    return batch
+  }
+
+  /**
+   * キャプチャを終了します。
+   * 残っているリクエストを `dispose` を理由とするチェックポイントで処理し（`flush: false` の場合は破棄し）、
+   * タイマーを止め、待機中のレスポンスを解放します。`nextCheckpoint()` の待機者は `CaptureDisposedError` でrejectされ、
+   * `waitForIdle()` の待機者は解決されます。
+   * 以降に到着したリクエストは `afterDispose` オプションに従って扱われます。
+   * @param options.flush 残っているリクエストをハンドラで処理するか（デフォルト: true）
+   * @returns 終了処理が完了したときに解決されるPromise
+   */
+  const dispose = async ({ flush = true }: { flush?: boolean } = {}): Promise<void> => {
+    if (disposed) return
+    disposed = true
+
+    try {
+      if (flush) {
+        await runCheckpoint('dispose')
+      } else {
+        discard()
+      }
+    } finally {
+      clearAutoCheckpointTimer()
+      releasePendingResponses()
+
+      const waiters = checkpointWaiters
+      checkpointWaiters = []
+      waiters.forEach(waiter => waiter.reject(new CaptureDisposedError('キャプチャハンドラーが破棄されました')))
+
+      idleWaiters.forEach(waiter => {
+        if (waiter.timeoutId !== undefined) scheduler.clearTimeout(waiter.timeoutId)
+        waiter.resolve()
       })
-      
-      handler(sortedRequests)
+      idleWaiters.clear()
     }
-    currentBatch.length = 0
-    
-    // 待機中のレスポンスを解放
-    const responses = pendingResponses
-    pendingResponses = []
-    responses.forEach(resolve => resolve())
   }
 
-  const requestHandler = async ({ request }: { request: Request }) => {
+  /**
+   * MSWのライフサイクルイベントを購読し、レスポンスをリクエストに対応付けます。
+   * @param events `server.events` などのイベントソース
+   * @returns 購読を解除する関数
+   */
+  const observe = (events: ResponseEventSource): (() => void) => {
+    const onResponse = ({ response, requestId }: { response: Response; requestId: string }) => {
+      awaitingResponses.get(requestId)?.(response)
+    }
+    const onException = ({ requestId }: { requestId: string }) => {
+      awaitingResponses.get(requestId)?.()
+    }
+    // ネットワークエラーではレスポンスのイベントが発行されないため、処理の終了から上限の時間だけ待つ
+    const onRequestEnd = ({ requestId }: { requestId: string }) => {
+      const settle = awaitingResponses.get(requestId)
+      if (!settle || settleTimeouts.has(requestId)) return
+      settleTimeouts.set(requestId, scheduler.setTimeout(() => settle(), responseOptions?.settleTimeoutMs ?? 5000))
+    }
+
+    events.on('response:mocked', onResponse)
+    events.on('response:bypass', onResponse)
+    events.on('unhandledException', onException)
+    events.on('request:end', onRequestEnd)
+    observedSources++
+
+    return () => {
+      events.removeListener('response:mocked', onResponse)
+      events.removeListener('response:bypass', onResponse)
+      events.removeListener('unhandledException', onException)
+      events.removeListener('request:end', onRequestEnd)
+      observedSources--
+    }
+  }
+
+  /**
+   * リクエストをキャプチャしてバッチに追加します。
+   * waitForCheckpointが有効な場合はチェックポイントまで待機します。
+   * @returns リクエストに注入する障害。注入しない場合はundefined
+   */
+  const captureRequest = async ({ request, requestId }: { request: Request; requestId: string }): Promise<InjectedFault | undefined> => {
     const capturedRequest: CapturedRequest = {
       method: request.method,
       url: request.url,
     }
+    const startedAt = scheduler.now()
+    const sequence = ++arrivals
+    arrivalTimes.set(capturedRequest, startedAt)
+    arrivalSequences.set(capturedRequest, sequence)
 
-    if (request.body && ['POST', 'PUT', 'PATCH'].includes(request.method)) {
+    // イベントを購読している場合のみ、レスポンスを対応付ける
+    const pairsResponse = responseOptions !== undefined && observedSources > 0
+    const flight = { peak: 0 }
+    if (recordTiming) {
+      capturedRequest.timing = { sequence, startedAt }
+      if (pairsResponse) {
+        inFlight.add(flight)
+        inFlight.forEach(other => {
+          other.peak = Math.max(other.peak, inFlight.size)
+        })
+      }
+    }
+
+    if (headerOptions) {
+      capturedRequest.headers = captureHeaders(request.headers, headerOptions)
+    }
+
+    // ボディの読み取りを待つと乱数を引く順序がボディの大きさで変わるため、到着時に障害を決めてリクエストに記録する
+    const injected = injectFault?.(capturedRequest)
+    if (injected) {
+      capturedRequest.fault = injected.fault
+    }
+
+    if (shouldCaptureBody(request, bodyCaptureOptions.methods)) {
       try {
-        const body = await request.clone().text()
+        const { body, truncated } = await readBody(request, bodyCaptureOptions.maxBytes)
         capturedRequest.body = body
+        if (truncated) {
+          capturedRequest.bodyTruncated = truncated
+        }
       } catch {
         // ボディ読み取りエラーは無視
       }
+
+      // 切り詰めたボディはデコードしない
+      if (bodyOptions && !capturedRequest.bodyTruncated) {
+        try {
+          capturedRequest.decodedBody = await decodeBody(request, bodyOptions)
+        } catch {
+          // デコードエラーは無視
+        }
+      }
+    }
+
+    // ボディの読み取り中に破棄された場合はバッチに追加しない
+    if (disposed) {
+      inFlight.delete(flight)
+      return undefined
+    }
+
+    // レスポンスの確定を待つ
+    if (pairsResponse) {
+      unsettledResponses++
+      unsettledRequests.add(capturedRequest)
+      settlements.set(capturedRequest, new Promise<void>((resolve) => {
+        awaitingResponses.set(requestId, async (response) => {
+          awaitingResponses.delete(requestId)
+          if (settleTimeouts.has(requestId)) {
+            scheduler.clearTimeout(settleTimeouts.get(requestId))
+            settleTimeouts.delete(requestId)
+          }
+          if (capturedRequest.timing) {
+            capturedRequest.timing.duration = scheduler.now() - startedAt
+            capturedRequest.timing.concurrency = flight.peak
+            inFlight.delete(flight)
+          }
+          if (response) {
+            capturedRequest.response = await captureResponse(response, responseOptions)
+          }
+          unsettledResponses--
+          unsettledRequests.delete(capturedRequest)
+          resolve()
+          checkIdle()
+        })
+      }))
     }
 
     // バッチにリクエストを追加
-    currentBatch.push(capturedRequest)
-    
-    // 自動チェックポイントのタイマーを再開始
-    startAutoCheckpointTimer()
-    
-    // waitForCheckpointが有効な場合、チェックポイントまで待機
-    if (autoCheckpoint?.waitForCheckpoint) {
-      await new Promise<void>((resolve) => {
-        pendingResponses.push(resolve)
+    insertByArrival(capturedRequest)
+
+    // waitForCheckpointの対象の場合、このリクエストを含むチェックポイントまで待機する
+    // 直後のチェックポイントで解放されるよう、チェックポイントの作成より先に登録する
+    const held = shouldHold(capturedRequest)
+      ? new Promise<void>((resolve) => {
+        pendingResponses.push({ request: capturedRequest, release: resolve })
       })
+      : undefined
+
+    const trigger = findImmediateTrigger(capturedRequest)
+    if (trigger) {
+      runAutoCheckpoint(trigger)
+    } else {
+      // 自動チェックポイントのタイマーを再開始
+      startAutoCheckpointTimer()
     }
-    
-    // 常に別のハンドラーに処理を委譲（fallthrough）
-    return undefined
+
+    await held
+    return injected
+  }
+
+  const requestHandler = async (info: { request: Request; requestId: string }) => {
+    if (disposed) {
+      if (afterDispose === 'throw') {
+        throw new CaptureDisposedError(
+          `破棄されたキャプチャハンドラーにリクエストが到着しました: ${info.request.method} ${info.request.url}`
+        )
+      }
+      return undefined
+    }
+
+    // 除外されたリクエストはキャプチャせずにそのまま委譲する
+    if (filter && !isRequestIncluded(info.request, filter)) {
+      return undefined
+    }
+
+    activeHandlers++
+    checkIdle()
+
+    let response: Response | undefined
+    try {
+      const injected = await captureRequest(info)
+      // 遅延の間も処理中として扱う
+      response = await injected?.apply()
+      // ネットワークエラーではMSWがレスポンスのイベントを発行しないため、ここでレスポンスなしとして確定させる
+      if (injected?.fault.type === 'networkError') {
+        awaitingResponses.get(info.requestId)?.()
+      }
+    } finally {
+      activeHandlers--
+      checkIdle()
+    }
+
+    // 障害のレスポンスを返す場合を除き、別のハンドラーに処理を委譲（fallthrough）
+    return response
   }
 
   return {
     handler: requestHandler,
-    checkpoint
+    checkpoint,
+    expectRequests,
+    nextCheckpoint,
+    waitForIdle,
+    observe,
+    discard,
+    releaseAll,
+    releaseNext,
+    dispose,
+    /**
+     * ハンドラが失敗したバッチの記録です。
+     */
+    failures: failures as readonly CheckpointFailure[],
+    /**
+     * waitForCheckpointで待機していたリクエストを、レスポンスを解放した順に記録したものです（正規化前）。
+     * シードを指定した順序で失敗した場合に、同じ順序を確認・再現するために使えます。
+     */
+    releaseLog: releaseLog as readonly CapturedRequest[],
+    /**
+     * waitForCheckpointにより待機中のリクエストの数です。
+     */
+    getHeldCount: (): number => pendingResponses.length + releasingResponses
   }
 }
+
+/**
+ * `createRequestsCaptureHandler` が返すオブジェクトの型です。
+ */
+export type RequestsCapturer = ReturnType<typeof createRequestsCaptureHandler>
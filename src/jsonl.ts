@@ -0,0 +1,45 @@
+import { appendFileSync, mkdirSync, writeFileSync } from 'node:fs'
+import { dirname } from 'node:path'
+import type { CapturedRequest } from './index'
+
+export interface JsonlSinkOptions {
+  /**
+   * 書き出すファイルのパスです。最初のバッチを書き出すときに既存の内容は消去されます。
+   */
+  file: string
+}
+
+/**
+ * リクエストを1行1件のJSON Lines形式の文字列にします。
+ */
+export const toJsonl = (requests: CapturedRequest[]): string =>
+  requests.map(request => `${JSON.stringify(request)}\n`).join('')
+
+/**
+ * JSON Lines形式の文字列をリクエストの配列に戻します。空行は無視します。
+ */
+export const parseJsonl = (text: string): CapturedRequest[] =>
+  text
+    .split('\n')
+    .filter(line => line.trim() !== '')
+    .map(line => JSON.parse(line) as CapturedRequest)
+
+/**
+ * チェックポイントのバッチをJSON Lines形式でファイルに追記するハンドラを作成します。
+ * 記録したファイルは `createReplayHandlers` で再生できます。
+ * @param options 設定オプション
+ * @returns `createRequestsCaptureHandler` の `handler` に渡せるハンドラ
+ */
+export function createJsonlSink(options: JsonlSinkOptions) {
+  const { file } = options
+  let started = false
+
+  return (requests: CapturedRequest[]): void => {
+    if (!started) {
+      mkdirSync(dirname(file), { recursive: true })
+      writeFileSync(file, '')
+      started = true
+    }
+    appendFileSync(file, toJsonl(requests))
+  }
+}
@@ -0,0 +1,116 @@
+import { matchRequestUrl, type Path } from 'msw'
+
+/**
+ * メソッドとURLを持つリクエストの形です。`Request` と `CapturedRequest` のどちらも該当します。
+ */
+export interface RequestLike {
+  method: string
+  url: string
+}
+
+/**
+ * リクエストの条件です。指定した条件を全て満たすリクエストにマッチします。
+ */
+export interface RequestPattern {
+  /**
+   * ホスト名のglobです（例: `*.example.com`）。ポートを含めた場合はポートも比較します。
+   */
+  host?: string
+  /**
+   * MSW形式のパスのパターンです（例: `/api/users/:id`、`https://api.example.com/*`）。
+   * 相対パスの場合はリクエストのオリジンを基準に解決します。
+   */
+  path?: Path
+  /**
+   * HTTPメソッドです（大文字小文字は区別しません）。
+   */
+  method?: string | string[]
+}
+
+/**
+ * リクエストの条件、または任意の判定関数です。
+ */
+export type RequestMatcher<T extends RequestLike = Request> = RequestPattern | ((request: T) => boolean)
+
+/**
+ * キャプチャするリクエストの条件です。
+ */
+export interface RequestFilter<T extends RequestLike = Request> {
+  /**
+   * 指定した場合、いずれかの条件にマッチするリクエストのみをキャプチャします。
+   */
+  include?: RequestMatcher<T>[]
+  /**
+   * いずれかの条件にマッチするリクエストはキャプチャしません。
+   */
+  exclude?: RequestMatcher<T>[]
+}
+
+const globToRegExp = (glob: string): RegExp => {
+  const source = glob
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${source}$`, 'i')
+}
+
+const parseUrl = (url: string): URL | undefined => {
+  try {
+    return new URL(url)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * リクエストが条件にマッチするかを判定します。
+ * @param request 判定するリクエスト
+ * @param matcher リクエストの条件または判定関数
+ * @returns マッチする場合はtrue
+ */
+export function matchesRequest<T extends RequestLike>(request: T, matcher: RequestMatcher<T>): boolean {
+  if (typeof matcher === 'function') {
+    return matcher(request)
+  }
+
+  if (matcher.method !== undefined) {
+    const methods = Array.isArray(matcher.method) ? matcher.method : [matcher.method]
+    if (!methods.some(method => method.toUpperCase() === request.method.toUpperCase())) {
+      return false
+    }
+  }
+
+  if (matcher.host === undefined && matcher.path === undefined) {
+    return true
+  }
+
+  const url = parseUrl(request.url)
+  if (!url) return false
+
+  if (matcher.host !== undefined) {
+    const host = matcher.host.includes(':') ? url.host : url.hostname
+    if (!globToRegExp(matcher.host).test(host)) {
+      return false
+    }
+  }
+
+  if (matcher.path !== undefined && !matchRequestUrl(url, matcher.path, url.origin).matches) {
+    return false
+  }
+
+  return true
+}
+
+/**
+ * リクエストがキャプチャの条件を満たすかを判定します。
+ * @param request 判定するリクエスト
+ * @param filter キャプチャするリクエストの条件
+ * @returns キャプチャする場合はtrue
+ */
+export function isRequestIncluded<T extends RequestLike>(request: T, filter: RequestFilter<T>): boolean {
+  const { include, exclude = [] } = filter
+  if (include && include.length > 0 && !include.some(matcher => matchesRequest(request, matcher))) {
+    return false
+  }
+  return !exclude.some(matcher => matchesRequest(request, matcher))
+}
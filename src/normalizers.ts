@@ -0,0 +1,157 @@
+import type { CapturedRequest } from './index'
+
+/**
+ * キャプチャしたリクエストを正規化する関数です。
+ * 引数のリクエストを変更せず、新しいオブジェクトを返す必要があります。
+ */
+export type RequestNormalizer = (request: CapturedRequest) => CapturedRequest
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi
+const ISO_DATE_PATTERN = /\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?/g
+
+/**
+ * 値に含まれる全ての文字列を再帰的に変換します。オブジェクトのキーは変換しません。
+ */
+const mapStrings = <T>(value: T, fn: (text: string) => string): T => {
+  if (typeof value === 'string') return fn(value) as T
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, fn)) as T
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, fn)])
+    ) as T
+  }
+  return value
+}
+
+/**
+ * オブジェクトのキーを再帰的にソートします。
+ */
+const sortKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(sortKeys)
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+    )
+  }
+  return value
+}
+
+/**
+ * URLのクエリ部分を変換します。
+ * `<APP>/path` のようにURLとして解釈できない文字列にも適用できるよう、文字列として分割します。
+ */
+const mapQuery = (url: string, fn: (params: URLSearchParams) => URLSearchParams): string => {
+  const hashIndex = url.indexOf('#')
+  const hash = hashIndex >= 0 ? url.slice(hashIndex) : ''
+  const withoutHash = hashIndex >= 0 ? url.slice(0, hashIndex) : url
+  const queryIndex = withoutHash.indexOf('?')
+  if (queryIndex < 0) return url
+
+  const query = fn(new URLSearchParams(withoutHash.slice(queryIndex + 1))).toString()
+  return `${withoutHash.slice(0, queryIndex)}${query ? `?${query}` : ''}${hash}`
+}
+
+/**
+ * UUIDをプレースホルダーに置き換えます。
+ * @param placeholder 置き換え後の文字列（デフォルト: `<UUID>`）
+ */
+export function maskUuids(placeholder: string = '<UUID>'): RequestNormalizer {
+  return (request) => mapStrings(request, text => text.replace(UUID_PATTERN, placeholder))
+}
+
+/**
+ * ISO 8601形式の日付・日時をプレースホルダーに置き換えます。
+ * @param placeholder 置き換え後の文字列（デフォルト: `<DATE>`）
+ */
+export function maskIsoDates(placeholder: string = '<DATE>'): RequestNormalizer {
+  return (request) => mapStrings(request, text => text.replace(ISO_DATE_PATTERN, placeholder))
+}
+
+/**
+ * URLのクエリパラメータをキー順にソートします。同じキーの値の順序は保持します。
+ */
+export function sortQueryParams(): RequestNormalizer {
+  return (request) => ({
+    ...request,
+    url: mapQuery(request.url, (params) => {
+      params.sort()
+      return params
+    }),
+  })
+}
+
+/**
+ * 指定した名前のクエリパラメータを取り除きます。
+ * @param names 取り除くパラメータ名（`_`、`nonce` などのキャッシュバスター）
+ */
+export function stripQueryParams(names: string[]): RequestNormalizer {
+  return (request) => ({
+    ...request,
+    url: mapQuery(request.url, (params) => {
+      names.forEach(name => params.delete(name))
+      return params
+    }),
+  })
+}
+
+/**
+ * JSONのキー順序を正規化します。
+ * JSONとして解釈できる `body`、JSONの `decodedBody`、レスポンスのボディが対象です。
+ */
+export function canonicalizeJson(): RequestNormalizer {
+  return (request) => {
+    const normalized = { ...request }
+
+    if (normalized.body !== undefined) {
+      try {
+        normalized.body = JSON.stringify(sortKeys(JSON.parse(normalized.body)))
+      } catch {
+        // JSONでないボディはそのまま
+      }
+    }
+
+    if (normalized.decodedBody?.type === 'json') {
+      normalized.decodedBody = { type: 'json', value: sortKeys(normalized.decodedBody.value) }
+    }
+
+    if (normalized.response) {
+      normalized.response = { ...normalized.response, body: sortKeys(normalized.response.body) }
+    }
+
+    return normalized
+  }
+}
+
+/**
+ * オリジンを別名に置き換えます。URLとヘッダーの値が対象です。
+ * @param aliases オリジンと別名の対応（例: `{ 'http://localhost:5173': '<APP>' }`）
+ */
+export function aliasOrigins(aliases: Record<string, string>): RequestNormalizer {
+  const replaceOrigins = (text: string): string =>
+    Object.entries(aliases).reduce((result, [origin, alias]) => result.split(origin).join(alias), text)
+
+  return (request) => {
+    const normalized = { ...request, url: replaceOrigins(request.url) }
+    if (normalized.headers) {
+      normalized.headers = mapStrings(normalized.headers, replaceOrigins)
+    }
+    return normalized
+  }
+}
+
+/**
+ * 到着順とタイミングの情報（`timing`）を取り除きます。
+ */
+export function stripTiming(): RequestNormalizer {
+  return ({ timing: _timing, ...request }) => request
+}
+
+/**
+ * 正規化関数を順番に適用します。
+ * @param request 正規化するリクエスト
+ * @param normalizers 適用する正規化関数の配列
+ * @returns 正規化されたリクエスト
+ */
+export function normalizeRequest(request: CapturedRequest, normalizers: RequestNormalizer[]): CapturedRequest {
+  return normalizers.reduce((result, normalizer) => normalizer(result), request)
+}
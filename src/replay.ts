@@ -0,0 +1,108 @@
+import { http, HttpResponse, type RequestHandler } from 'msw'
+import { fromHar, type Har } from './har'
+import type { CapturedRequest } from './index'
+import { parseJsonl } from './jsonl'
+import { normalizeRequest, sortQueryParams, type RequestNormalizer } from './normalizers'
+import type { CapturedResponse } from './responses'
+
+/**
+ * 再生する記録です。JSON Lines形式・HAR形式の文字列、HAR、リクエストの配列を指定できます。
+ */
+export type Recording = string | Har | CapturedRequest[]
+
+export interface ReplayOptions {
+  /**
+   * 指定した場合、メソッドとURLに加えてボディも一致するリクエストにのみ応答します。デフォルトはfalseです。
+   */
+  matchBody?: boolean
+  /**
+   * 比較の前に記録と受信したリクエストの両方に適用する正規化関数です。
+   * デフォルトはクエリパラメータのソート（`sortQueryParams()`）です。
+   */
+  normalize?: RequestNormalizer[]
+  /**
+   * 記録にないリクエストの扱いです。
+   * - `passthrough`: 応答せず、後続のハンドラーに処理を渡します（デフォルト）
+   * - `error`: エラーを投げます（MSWは500レスポンスを返します）
+   */
+  onUnmatched?: 'passthrough' | 'error'
+}
+
+/**
+ * 記録をリクエストの配列として読み込みます。
+ * 文字列の場合、`log` プロパティを持つJSONであればHAR、それ以外はJSON Linesとして解釈します。
+ * @param recording 読み込む記録
+ * @returns 記録の順のリクエスト
+ */
+export function parseRecording(recording: Recording): CapturedRequest[] {
+  if (Array.isArray(recording)) return recording
+  if (typeof recording !== 'string') return fromHar(recording)
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(recording)
+  } catch {
+    // 全体が1つのJSONではない場合は複数行のJSON Lines
+    return parseJsonl(recording)
+  }
+  if (Array.isArray(parsed)) return parsed as CapturedRequest[]
+  if (parsed !== null && typeof parsed === 'object' && 'log' in parsed) return fromHar(parsed as Har)
+  // 1行だけのJSON Lines
+  return [parsed as CapturedRequest]
+}
+
+const toResponse = (response: CapturedResponse): Response => {
+  const { status, headers, body } = response
+  if (body === undefined) return new HttpResponse(null, { status, headers })
+  if (typeof body === 'string') return new HttpResponse(body, { status, headers })
+  return HttpResponse.json(body, { status, headers })
+}
+
+/**
+ * 記録したリクエストとレスポンスを再生するMSWのハンドラーを作成します。
+ * 同じリクエストが複数記録されている場合は記録の順に応答し、最後の記録はその後も繰り返し使います。
+ * @param recording 再生する記録
+ * @param options 設定オプション
+ * @returns `setupServer()` や `server.use()` に渡すハンドラー
+ */
+export function createReplayHandlers(recording: Recording, options: ReplayOptions = {}): RequestHandler[] {
+  const { matchBody = false, normalize = [sortQueryParams()], onUnmatched = 'passthrough' } = options
+
+  const toKey = (request: CapturedRequest): string => {
+    const target: CapturedRequest = { method: request.method.toUpperCase(), url: request.url }
+    if (matchBody && request.body !== undefined) target.body = request.body
+    const normalized = normalizeRequest(target, normalize)
+    return JSON.stringify([normalized.method, normalized.url, normalized.body])
+  }
+
+  const recorded = new Map<string, CapturedResponse[]>()
+  for (const request of parseRecording(recording)) {
+    if (request.response === undefined) continue
+    const key = toKey(request)
+    recorded.set(key, [...(recorded.get(key) ?? []), request.response])
+  }
+  const served = new Map<string, number>()
+
+  return [
+    http.all('*', async ({ request }) => {
+      const incoming: CapturedRequest = { method: request.method, url: request.url }
+      if (matchBody) {
+        const body = await request.clone().text()
+        if (body) incoming.body = body
+      }
+
+      const key = toKey(incoming)
+      const responses = recorded.get(key)
+      if (responses === undefined) {
+        if (onUnmatched === 'error') {
+          throw new Error(`記録にないリクエストです: ${request.method} ${request.url}`)
+        }
+        return undefined
+      }
+
+      const count = served.get(key) ?? 0
+      served.set(key, count + 1)
+      return toResponse(responses[Math.min(count, responses.length - 1)])
+    })
+  ]
+}
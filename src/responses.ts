@@ -0,0 +1,80 @@
+import type { LifeCycleEventsMap } from 'msw'
+import { captureHeaders, type HeaderCaptureOptions } from './headers'
+
+/**
+ * キャプチャされたレスポンスの型定義です。
+ */
+export interface CapturedResponse {
+  status: number
+  /**
+   * キャプチャされたレスポンスヘッダー（`headers` オプション指定時のみ）。
+   */
+  headers?: Record<string, string>
+  /**
+   * レスポンスボディ。JSONの場合はパース済みの値、それ以外はテキストです。
+   */
+  body?: unknown
+}
+
+/**
+ * レスポンスのキャプチャ方法を定義するインターフェースです。
+ */
+export interface ResponseCaptureOptions {
+  /**
+   * 指定した場合、レスポンスヘッダーをキャプチャします。
+   */
+  headers?: HeaderCaptureOptions
+  /**
+   * リクエストの処理が終わってから（MSWの `request:end` イベントから）レスポンスを待つ最大のミリ秒数です。デフォルトは5000です。
+   * 実ネットワークのエラーや後続のハンドラーが返した `Response.error()` ではレスポンスのイベントが発行されないため、
+   * この時間が経過したリクエストはレスポンスなしで確定します。
+   */
+  settleTimeoutMs?: number
+}
+
+type ResponseEventName = 'response:mocked' | 'response:bypass' | 'unhandledException' | 'request:end'
+
+/**
+ * レスポンスの発生を通知するイベントソースです。`server.events` をそのまま渡せます。
+ */
+export interface ResponseEventSource {
+  on<EventName extends ResponseEventName>(
+    event: EventName,
+    listener: (...args: LifeCycleEventsMap[EventName]) => void
+  ): unknown
+  removeListener<EventName extends ResponseEventName>(
+    event: EventName,
+    listener: (...args: LifeCycleEventsMap[EventName]) => void
+  ): unknown
+}
+
+/**
+ * レスポンスを設定に従ってキャプチャします。
+ * Content-TypeがJSONの場合、ボディはパースされます。
+ * @param response キャプチャするレスポンス
+ * @param options レスポンスのキャプチャ設定
+ * @returns キャプチャされたレスポンス
+ */
+export async function captureResponse(response: Response, options: ResponseCaptureOptions): Promise<CapturedResponse> {
+  const capturedResponse: CapturedResponse = {
+    status: response.status,
+  }
+
+  if (options.headers) {
+    capturedResponse.headers = captureHeaders(response.headers, options.headers)
+  }
+
+  try {
+    const text = await response.clone().text()
+    if (text) {
+      capturedResponse.body = text
+      if (response.headers.get('content-type')?.includes('json')) {
+        capturedResponse.body = JSON.parse(text)
+      }
+    }
+  } catch {
+    // ボディ読み取り・パースエラーは無視（テキストのまま保持）
+  }
+
+  return capturedResponse
+}
@@ -0,0 +1,120 @@
+/**
+ * タイマーと現在時刻を提供するスケジューラーです。
+ * 自動チェックポイントや待機処理のタイマーはこのスケジューラーを通して設定されます。
+ */
+export interface Scheduler {
+  /**
+   * タイマーを予約します。コールバックがPromiseを返した場合、仮想時間のスケジューラーはその完了を待ちます。
+   */
+  setTimeout(callback: () => void | Promise<void>, ms: number): unknown
+  clearTimeout(handle: unknown): void
+  /**
+   * 現在時刻（ミリ秒）を返します。
+   */
+  now(): number
+}
+
+/**
+ * グローバルの `setTimeout` / `clearTimeout` / `Date.now` を使うスケジューラーです。
+ * 呼び出し時点のグローバル関数を参照するため、`vi.useFakeTimers()` とも併用できます。
+ */
+export const systemScheduler: Scheduler = {
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+  now: () => Date.now(),
+}
+
+/**
+ * 仮想時間で動作するスケジューラーです。
+ */
+export interface VirtualScheduler extends Scheduler {
+  /**
+   * 仮想時間を指定ミリ秒進め、その間に期限を迎えるタイマーを時刻順に実行します。
+   * タイマーのコールバックがPromiseを返した場合は、その完了を待ってから次のタイマーを実行します。
+   * 自動チェックポイントのタイマーはチェックポイントの完了を表すPromiseを返すため、実際のI/Oを行う非同期ハンドラも完了します。
+   * ただし、レスポンスの確定を待つチェックポイント（`responses` オプションで未確定のレスポンスがある場合）は待ちません。
+   * 確定が仮想時間の後のタイマーに依存する場合があるためです。その場合は `nextCheckpoint()` などで完了を待ってください。
+   */
+  advance(ms: number): Promise<void>
+  /**
+   * タイマーがなくなるまで仮想時間を進めます。
+   * @param limit 実行するタイマー数の上限（無限ループ防止、デフォルト: 1000）
+   */
+  runAll(limit?: number): Promise<void>
+  /**
+   * 予約されているタイマーの数を返します。
+   */
+  pending(): number
+}
+
+interface VirtualTimer {
+  id: number
+  time: number
+  callback: () => void | Promise<void>
+}
+
+/**
+ * 仮想時間で動作するスケジューラーを作成します。
+ * アプリケーションの時間とは独立してキャプチャの時間を進められるため、タイミングに依存するテストを即座に決定的に実行できます。
+ * @param startTime 仮想時間の開始時刻（デフォルト: 0）
+ * @returns 仮想時間のスケジューラー
+ */
+export function createVirtualScheduler(startTime: number = 0): VirtualScheduler {
+  let currentTime = startTime
+  let nextId = 0
+  const timers: VirtualTimer[] = []
+
+  /**
+   * 期限が指定時刻以前で最も早いタイマーを取り出します。同じ時刻の場合は予約順です。
+   */
+  const takeNextTimer = (until: number): VirtualTimer | undefined => {
+    let next: VirtualTimer | undefined
+    for (const timer of timers) {
+      if (timer.time > until) continue
+      if (!next || timer.time < next.time || (timer.time === next.time && timer.id < next.id)) {
+        next = timer
+      }
+    }
+    if (next) {
+      timers.splice(timers.indexOf(next), 1)
+    }
+    return next
+  }
+
+  const runTimer = async (timer: VirtualTimer): Promise<void> => {
+    currentTime = timer.time
+    await timer.callback()
+  }
+
+  return {
+    setTimeout: (callback, ms) => {
+      const timer = { id: nextId++, time: currentTime + Math.max(0, ms), callback }
+      timers.push(timer)
+      return timer.id
+    },
+    clearTimeout: (handle) => {
+      const index = timers.findIndex(timer => timer.id === handle)
+      if (index >= 0) {
+        timers.splice(index, 1)
+      }
+    },
+    now: () => currentTime,
+    advance: async (ms) => {
+      const target = currentTime + ms
+      let timer = takeNextTimer(target)
+      while (timer) {
+        await runTimer(timer)
+        timer = takeNextTimer(target)
+      }
+      currentTime = target
+    },
+    runAll: async (limit = 1000) => {
+      for (let count = 0; count < limit; count++) {
+        const timer = takeNextTimer(Infinity)
+        if (!timer) return
+        await runTimer(timer)
+      }
+    },
+    pending: () => timers.length,
+  }
+}
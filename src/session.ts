@@ -0,0 +1,116 @@
+import { http, type RequestHandler } from 'msw'
+import { setupServer, type SetupServerApi } from 'msw/node'
+import { CaptureSessionError } from './errors'
+import {
+  createRequestsCaptureHandler,
+  type CapturedRequest,
+  type CapturedRequestsHandler,
+  type CheckpointContext,
+  type CreateRequestsCaptureHandlerOptions
+} from './index'
+import type { RequestLike } from './matchers'
+
+export interface CaptureSessionOptions extends Omit<CreateRequestsCaptureHandlerOptions, 'handler'> {
+  /**
+   * キャプチャしたリクエストを処理するハンドラです。省略時は `batches` に記録するだけです。
+   */
+  handler?: CapturedRequestsHandler
+  /**
+   * キャプチャハンドラーの後に配置するMSWのハンドラーです。
+   */
+  handlers?: RequestHandler[]
+  /**
+   * `server.listen()` に渡すオプションです。
+   */
+  listenOptions?: Parameters<SetupServerApi['listen']>[0]
+  /**
+   * 終了処理でテスト終了後のリクエストを検出するために待機するミリ秒数です。デフォルトは50です。
+   * この時間が経過するとMSWサーバーを停止するため、それより後に送られたリクエストはインターセプトされず、検出もされません。
+   */
+  leakWindowMs?: number
+}
+
+/**
+ * MSWサーバーとキャプチャハンドラーをまとめたキャプチャセッションを作成します。
+ * テストフレームワークの前処理・後処理から `start()` と `finish()` を呼び出して使います。
+ * @param options 設定オプション
+ * @returns キャプチャハンドラーの機能に加えて、サーバー、記録されたバッチ、開始・終了関数を含むオブジェクト
+ */
+export function createCaptureSession(options: CaptureSessionOptions = {}) {
+  const { handler, handlers = [], listenOptions, leakWindowMs = 50, ...captureOptions } = options
+  const batches: CapturedRequest[][] = []
+  const leaked: RequestLike[] = []
+  let finished = false
+
+  const capturer = createRequestsCaptureHandler({
+    ...captureOptions,
+    handler: (requests: CapturedRequest[], context: CheckpointContext) => {
+      batches.push(requests)
+      return handler?.(requests, context)
+    }
+  })
+
+  const requestHandler = async (info: { request: Request; requestId: string }) => {
+    // 終了後に到着したリクエストはキャプチャせずに記録する
+    if (finished) {
+      leaked.push({ method: info.request.method, url: info.request.url })
+      return undefined
+    }
+    return capturer.handler(info)
+  }
+
+  const captureHandler = http.all('*', requestHandler)
+  const server = setupServer(captureHandler, ...handlers)
+  const unobserve = capturer.observe(server.events)
+  let runtimeHandlers: RequestHandler[] = []
+
+  /**
+   * MSWのハンドラーを追加します。`server.use()` と異なり、キャプチャハンドラーより後に配置されます。
+   * 後から追加したハンドラーほど優先されます。
+   */
+  const use = (...nextHandlers: RequestHandler[]): void => {
+    runtimeHandlers = [...nextHandlers, ...runtimeHandlers]
+    server.resetHandlers(captureHandler, ...runtimeHandlers, ...handlers)
+  }
+
+  /**
+   * MSWサーバーを起動します。
+   */
+  const start = (): void => {
+    server.listen(listenOptions)
+  }
+
+  /**
+   * キャプチャハンドラーを破棄して残っているリクエストを処理し、MSWサーバーを停止します。
+   * 終了時に待機中のリクエストがあった場合、または終了後にリクエストが到着した場合は `CaptureSessionError` でrejectされます。
+   */
+  const finish = async (): Promise<void> => {
+    const held = capturer.getHeldCount()
+    finished = true
+
+    try {
+      await capturer.dispose()
+      await new Promise(resolve => setTimeout(resolve, leakWindowMs))
+    } finally {
+      unobserve()
+      server.close()
+    }
+
+    if (held > 0 || leaked.length > 0) {
+      throw new CaptureSessionError(held, leaked)
+    }
+  }
+
+  return {
+    ...capturer,
+    handler: requestHandler,
+    server,
+    batches,
+    leaked: leaked as readonly RequestLike[],
+    use,
+    start,
+    finish
+  }
+}
+
+export type CaptureSession = ReturnType<typeof createCaptureSession>
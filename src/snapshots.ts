@@ -0,0 +1,187 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname } from 'node:path'
+import { ObsoleteSnapshotError, SnapshotMismatchError } from './errors'
+import type { CapturedRequest } from './index'
+import { stripTiming } from './normalizers'
+
+/**
+ * スナップショットの動作モードです。
+ * - `record`: キャプチャしたリクエストをファイルに記録します（既存の記録は上書きします）
+ * - `verify`: キャプチャしたリクエストを記録と比較し、異なる場合はエラーを投げます
+ * - `off`: 何もしません
+ */
+export type SnapshotMode = 'record' | 'verify' | 'off'
+
+/**
+ * モードを切り替える環境変数の名前です。
+ */
+export const SNAPSHOT_MODE_ENV = 'CAPTURE_REQUESTS'
+
+export interface SnapshotHandlerOptions {
+  /**
+   * スナップショットファイルのパスです。関数の場合はバッチごとに呼び出されます。
+   */
+  file: string | (() => string)
+  /**
+   * スナップショットのキーに使う名前（通常はテスト名）です。関数の場合はバッチごとに呼び出されます。
+   */
+  name: string | (() => string)
+  /**
+   * 動作モードです。省略時は環境変数 `CAPTURE_REQUESTS` の値、それもなければ `verify` です。
+   */
+  mode?: SnapshotMode
+}
+
+/**
+ * `createSnapshotHandler` が返すハンドラです。
+ */
+export interface SnapshotHandler {
+  (requests: CapturedRequest[]): void
+  /**
+   * テストの終了時に呼び出し、そのテストで参照されなかった記録（チェックポイントの番号が今回の回数より大きいもの）を処理します。
+   * `verify` モードでは `ObsoleteSnapshotError` を投げ、`record` モードでは削除します。
+   * 記録と一致しなかったテストでは参照されなかった記録を検出しません。
+   * チェックポイントの番号はテストが失敗した場合も含めて1から数え直すため、リトライしたテストも同じキーで比較できます。
+   */
+  finish(): void
+}
+
+type SnapshotFile = Record<string, CapturedRequest[]>
+
+const SNAPSHOT_MODES: SnapshotMode[] = ['record', 'verify', 'off']
+
+/**
+ * 環境変数からスナップショットの動作モードを読み取ります。
+ */
+export const readSnapshotMode = (env: Record<string, string | undefined> = process.env): SnapshotMode => {
+  const value = env[SNAPSHOT_MODE_ENV]
+  if (value === undefined || value === '') return 'verify'
+  if (!SNAPSHOT_MODES.includes(value as SnapshotMode)) {
+    throw new Error(`${SNAPSHOT_MODE_ENV} には ${SNAPSHOT_MODES.join(', ')} のいずれかを指定してください: ${value}`)
+  }
+  return value as SnapshotMode
+}
+
+/**
+ * 比較用の文字列にします。実行ごとに変わるタイミングの情報は含めません。
+ */
+const serialize = (requests: CapturedRequest[] | undefined): string =>
+  JSON.stringify((requests ?? []).map(stripTiming()), null, 2)
+
+/**
+ * 行単位の差分を `-`（記録）と `+`（今回）の記号付きで返します。
+ */
+const diffLines = (expected: string, actual: string): string => {
+  const a = expected.split('\n')
+  const b = actual.split('\n')
+  // 最長共通部分列の長さの表
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const lines: string[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push(`  ${a[i++]}`)
+      j++
+    } else if (j < b.length && (i === a.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      lines.push(`+ ${b[j++]}`)
+    } else {
+      lines.push(`- ${a[i++]}`)
+    }
+  }
+  return lines.join('\n')
+}
+
+/**
+ * チェックポイントのバッチをスナップショットファイルに記録・検証するハンドラを作成します。
+ * スナップショットはテスト名とチェックポイントの番号（1から）の組をキーとして保存されます。
+ * テストの終了時に `finish()` を呼び出すと、そのテストで参照されなかった記録を検出・削除します。
+ * @param options 設定オプション
+ * @returns `createRequestsCaptureHandler` の `handler` に渡せるハンドラ
+ */
+export function createSnapshotHandler(options: SnapshotHandlerOptions): SnapshotHandler {
+  const { file, name } = options
+  const mode = options.mode ?? readSnapshotMode()
+  const counters = new Map<string, number>()
+  // 記録と一致しなかったテスト（ファイルとテスト名の組）
+  const mismatched = new Set<string>()
+  const snapshots = new Map<string, SnapshotFile>()
+
+  const load = (path: string): SnapshotFile => {
+    let data = snapshots.get(path)
+    if (data === undefined) {
+      data = existsSync(path) ? (JSON.parse(readFileSync(path, 'utf-8')) as SnapshotFile) : {}
+      snapshots.set(path, data)
+    }
+    return data
+  }
+
+  const save = (path: string, data: SnapshotFile): void => {
+    // キーの順序を固定して、記録の順番による差分を出さない
+    const sorted = Object.fromEntries(Object.keys(data).sort().map(key => [key, data[key]]))
+    mkdirSync(dirname(path), { recursive: true })
+    writeFileSync(path, `${JSON.stringify(sorted, null, 2)}\n`)
+  }
+
+  const resolveTarget = () => {
+    const snapshotFile = typeof file === 'function' ? file() : file
+    const testName = typeof name === 'function' ? name() : name
+    return { snapshotFile, testName, counterKey: `${snapshotFile}\0${testName}` }
+  }
+
+  const handler = (requests: CapturedRequest[]): void => {
+    if (mode === 'off') return
+
+    const { snapshotFile, testName, counterKey } = resolveTarget()
+    const index = (counters.get(counterKey) ?? 0) + 1
+    counters.set(counterKey, index)
+    const key = `${testName} #${index}`
+    const data = load(snapshotFile)
+
+    if (mode === 'record') {
+      // undefinedのプロパティとタイミングの情報を除いた形で保存する
+      data[key] = JSON.parse(serialize(requests))
+      save(snapshotFile, data)
+      return
+    }
+
+    const expected = data[key]
+    const actual = serialize(requests)
+    if (expected === undefined || serialize(expected) !== actual) {
+      mismatched.add(counterKey)
+      throw new SnapshotMismatchError(key, expected, requests, diffLines(serialize(expected), actual))
+    }
+  }
+
+  const finish = (): void => {
+    if (mode === 'off') return
+
+    const { snapshotFile, testName, counterKey } = resolveTarget()
+    const visited = counters.get(counterKey) ?? 0
+    counters.delete(counterKey)
+    if (mismatched.delete(counterKey)) return
+
+    const data = load(snapshotFile)
+    const prefix = `${testName} #`
+    const obsolete = Object.keys(data).filter(key => {
+      const index = key.slice(prefix.length)
+      return key.startsWith(prefix) && /^\d+$/.test(index) && Number(index) > visited
+    })
+    if (obsolete.length === 0) return
+
+    if (mode === 'record') {
+      obsolete.forEach(key => delete data[key])
+      save(snapshotFile, data)
+      return
+    }
+    throw new ObsoleteSnapshotError(obsolete)
+  }
+
+  return Object.assign(handler, { finish })
+}
@@ -0,0 +1,57 @@
+import type { CapturedRequest } from './index'
+
+/**
+ * チェックポイントでリクエストを並べ替える比較関数です。
+ */
+export type RequestComparator = (a: CapturedRequest, b: CapturedRequest) => number
+
+/**
+ * バッチの並び順の指定方法です。
+ * `'arrival'` の場合はリクエストがキャプチャハンドラーに到着した順を保持します（ボディの読み取りが終わった順ではありません）。
+ */
+export type RequestSortOption = RequestComparator | 'arrival'
+
+/**
+ * キーをソートしてJSON文字列化します。同じ内容のオブジェクトは常に同じ文字列になります。
+ */
+const stableStringify = (value: unknown): string => {
+  if (value === undefined) return ''
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+const compareCodeUnits = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0)
+
+/**
+ * デフォルトの比較関数です。
+ * URL、メソッド、ボディ、ヘッダーの順に比較し、それでも同じ場合はリクエスト全体の内容で比較します。
+ * 文字列はUTF-16のコード単位で比較するため、実行環境のロケールによらず同じ順序になります。
+ * 実行ごとに変わるタイミングの情報（`timing`）は比較に使わないため、内容が異なるリクエストの順序は到着順に依存しません。
+ */
+export const compareRequests: RequestComparator = (a, b) => {
+  return (
+    compareCodeUnits(a.url, b.url) ||
+    compareCodeUnits(a.method, b.method) ||
+    compareCodeUnits(a.body ?? '', b.body ?? '') ||
+    compareCodeUnits(stableStringify(a.headers), stableStringify(b.headers)) ||
+    compareCodeUnits(stableStringify({ ...a, timing: undefined }), stableStringify({ ...b, timing: undefined }))
+  )
+}
+
+/**
+ * 指定に従ってリクエストを並べ替えた新しい配列を返します。
+ * @param requests 並べ替えるリクエスト
+ * @param sort 比較関数または `'arrival'`（デフォルト: `compareRequests`）
+ * @returns 並べ替えたリクエストの配列
+ */
+export function sortRequests(requests: CapturedRequest[], sort: RequestSortOption = compareRequests): CapturedRequest[] {
+  if (sort === 'arrival') return [...requests]
+  return [...requests].sort(sort)
+}
@@ -0,0 +1,75 @@
+import { expect, test } from 'vitest'
+import { captureMatchers, type CaptureMatchers } from './assertions'
+import { basename, dirname, join } from 'node:path'
+import { createCaptureSession, type CaptureSession, type CaptureSessionOptions } from './session'
+import { createSnapshotHandler, type SnapshotHandler, type SnapshotHandlerOptions } from './snapshots'
+
+export { createCaptureSession, type CaptureSession, type CaptureSessionOptions } from './session'
+export { CaptureSessionError } from './errors'
+export { createSnapshotHandler, type SnapshotHandler, type SnapshotHandlerOptions, type SnapshotMode } from './snapshots'
+export { captureMatchers, type CaptureMatchers, type RequestExpectation } from './assertions'
+
+declare module 'vitest' {
+  interface Assertion<T = any> extends CaptureMatchers<T> {}
+  interface AsymmetricMatchersContaining extends CaptureMatchers {}
+}
+
+// このモジュールを読み込むだけでマッチャーを使えるように登録する
+expect.extend(captureMatchers)
+
+const isSnapshotHandler = (handler: CaptureSessionOptions['handler']): handler is SnapshotHandler =>
+  typeof handler === 'function' && 'finish' in handler && typeof handler.finish === 'function'
+
+/**
+ * キャプチャセッションを `capture` フィクスチャとして提供するVitestの `test` を作成します。
+ * テストの終了時に自動でチェックポイントを実行し、待機中のリクエストやテスト終了後のリクエストがあればテストを失敗させます。
+ * `handler` がスナップショットのハンドラの場合は、テストが失敗した場合も続けてその `finish()` を呼び出します。
+ * @param options キャプチャセッションの設定
+ * @returns `capture` フィクスチャを持つ `test`
+ */
+export function createCaptureTest(options: CaptureSessionOptions = {}) {
+  return test.extend<{ capture: CaptureSession }>({
+    capture: async ({}, use) => {
+      const session = createCaptureSession(options)
+      const snapshot = isSnapshotHandler(options.handler) ? options.handler : undefined
+      session.start()
+      await use(session)
+      try {
+        await session.finish()
+      } catch (error) {
+        // リトライしたテストが番号を1から数え直せるよう、失敗した場合も終了させる。エラーはセッションのものを優先する
+        try {
+          snapshot?.finish()
+        } catch {
+          // 参照されなかった記録のエラーは無視
+        }
+        throw error
+      }
+      snapshot?.finish()
+    }
+  })
+}
+
+/**
+ * デフォルト設定の `capture` フィクスチャを持つ `test` です。
+ */
+export const captureTest = createCaptureTest()
+
+/**
+ * 実行中のテストをキーとしてスナップショットを記録・検証するハンドラを作成します。
+ * 省略時のファイルはテストファイルと同じディレクトリの `__request_snapshots__/<テストファイル名>.json`、
+ * 名前は実行中のテストの名前です。
+ * @param options スナップショットの設定
+ * @returns `createCaptureTest` などの `handler` に渡せるハンドラ
+ */
+export function createTestSnapshotHandler(options: Partial<SnapshotHandlerOptions> = {}): SnapshotHandler {
+  return createSnapshotHandler({
+    file: () => {
+      const { testPath } = expect.getState()
+      if (testPath === undefined) throw new Error('テストの実行中ではないため、スナップショットファイルを決められません')
+      return join(dirname(testPath), '__request_snapshots__', `${basename(testPath)}.json`)
+    },
+    name: () => expect.getState().currentTestName ?? '',
+    ...options
+  })
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { setTimeout } from 'timers/promises'
+import { createRequestsCaptureHandler, type CapturedRequest } from '../src/index'
+
+describe('非同期ハンドラー', () => {
+  it('checkpointは非同期ハンドラーの完了後に解決される', async () => {
+    const events: string[] = []
+
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: async (requests: CapturedRequest[]) => {
+        events.push('handler-start')
+        await setTimeout(30)
+        events.push(`handler-end:${requests.length}`)
+      }
+    })
+
+    const userHandler = http.get('https://api.example.com/test', () => {
+      return HttpResponse.json({ success: true })
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/test')
+
+      const promise = checkpoint()
+      expect(events).toEqual(['handler-start'])
+
+      await promise
+      expect(events).toEqual(['handler-start', 'handler-end:1'])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('非同期ハンドラーのエラーはcheckpointのPromiseで受け取れる', async () => {
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: async () => {
+        await setTimeout(10)
+        throw new Error('スナップショット不一致')
+      }
+    })
+
+    const userHandler = http.get('https://api.example.com/test', () => {
+      return HttpResponse.json({ success: true })
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/test')
+
+      await expect(checkpoint()).rejects.toThrow('スナップショット不一致')
+    } finally {
+      server.close()
+    }
+  })
+
+  it('waitForCheckpointが有効な場合、非同期ハンドラーの完了後にレスポンスを解放する', async () => {
+    const handlerCallOrder: string[] = []
+
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: async () => {
+        handlerCallOrder.push('capture-handler-start')
+        await setTimeout(30)
+        handlerCallOrder.push('capture-handler-end')
+      },
+      options: { timeoutMs: 1000, waitForCheckpoint: true }
+    })
+
+    const userHandler = http.get('https://api.example.com/test', () => {
+      handlerCallOrder.push('user-handler')
+      return HttpResponse.json({ success: true })
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      const responsePromise = fetch('https://api.example.com/test')
+      await setTimeout(20)
+
+      await checkpoint()
+      const response = await responsePromise
+
+      expect(await response.json()).toEqual({ success: true })
+      expect(handlerCallOrder).toEqual([
+        'capture-handler-start',
+        'capture-handler-end',
+        'user-handler'
+      ])
+    } finally {
+      server.close()
+    }
+  })
+
+  describe('waitForCheckpointとの併用', () => {
+    const setup = () => {
+      let openGate = () => {}
+      const gate = new Promise<void>((resolve) => {
+        openGate = resolve
+      })
+      const batches: string[][] = []
+      const capturer = createRequestsCaptureHandler({
+        handler: async (requests: CapturedRequest[]) => {
+          batches.push(requests.map(request => new URL(request.url).pathname))
+          await gate
+        },
+        options: { waitForCheckpoint: true }
+      })
+      const userHandler = http.all('*', () => HttpResponse.json({ success: true }))
+      const server = setupServer(http.all('*', capturer.handler), userHandler)
+      server.listen()
+
+      const track = (path: string) => {
+        const state = { settled: false }
+        const promise = fetch(`https://api.example.com${path}`).then((response) => {
+          state.settled = true
+          return response
+        })
+        return { state, promise }
+      }
+      return { ...capturer, batches, openGate, server, track }
+    }
+
+    it('ハンドラの実行中に到着したリクエストは、そのリクエストを含むチェックポイントまで待機する', async () => {
+      const { checkpoint, getHeldCount, batches, openGate, server, track } = setup()
+
+      try {
+        const a = track('/a')
+        await setTimeout(20)
+        const first = checkpoint()
+
+        const b = track('/b')
+        await setTimeout(20)
+        expect(getHeldCount()).toBe(2)
+
+        openGate()
+        await first
+        expect((await a.promise).status).toBe(200)
+        await setTimeout(20)
+        expect(b.state.settled).toBe(false)
+        expect(getHeldCount()).toBe(1)
+
+        await checkpoint()
+        expect((await b.promise).status).toBe(200)
+        expect(batches).toEqual([['/a'], ['/b']])
+      } finally {
+        server.close()
+      }
+    })
+
+    it('チェックポイントの実行中のdiscard()は、実行中のバッチのレスポンスを解放しない', async () => {
+      const { checkpoint, discard, getHeldCount, openGate, server, track } = setup()
+
+      try {
+        const a = track('/a')
+        await setTimeout(20)
+        const first = checkpoint()
+
+        const b = track('/b')
+        await setTimeout(20)
+        expect(discard().map(request => request.url)).toEqual(['https://api.example.com/b'])
+        expect((await b.promise).status).toBe(200)
+        expect(a.state.settled).toBe(false)
+        expect(getHeldCount()).toBe(1)
+
+        openGate()
+        await first
+        expect((await a.promise).status).toBe(200)
+      } finally {
+        server.close()
+      }
+    })
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { setTimeout } from 'timers/promises'
+import { createRequestsCaptureHandler, type CapturedRequest } from '../src/index'
+
+describe('nextCheckpoint() と waitForIdle()', () => {
+  const userHandler = http.get('https://api.example.com/users/:id', ({ params }) => {
+    return HttpResponse.json({ id: params.id })
+  })
+
+  it('nextCheckpoint()は次の自動チェックポイントのバッチで解決される', async () => {
+    const capturedGroups: CapturedRequest[][] = []
+
+    const { handler, nextCheckpoint } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        capturedGroups.push(requests)
+      },
+      options: { timeoutMs: 50 }
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      const batchPromise = nextCheckpoint()
+
+      await fetch('https://api.example.com/users/2')
+      await fetch('https://api.example.com/users/1')
+
+      const batch = await batchPromise
+
+      expect(batch.map(request => request.url)).toEqual([
+        'https://api.example.com/users/1',
+        'https://api.example.com/users/2'
+      ])
+      expect(capturedGroups).toEqual([batch])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('nextCheckpoint()は空のチェックポイントでは解決されない', async () => {
+    const { handler, checkpoint, nextCheckpoint } = createRequestsCaptureHandler({
+      handler: () => {}
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      let resolved = false
+      const batchPromise = nextCheckpoint().then((batch) => {
+        resolved = true
+        return batch
+      })
+
+      await checkpoint()
+      await setTimeout(10)
+      expect(resolved).toBe(false)
+
+      await fetch('https://api.example.com/users/1')
+      await checkpoint()
+
+      expect(await batchPromise).toHaveLength(1)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('waitForIdle()は処理中のリクエストがなくバッファが空になるまで待機する', async () => {
+    const capturedGroups: CapturedRequest[][] = []
+
+    const { handler, waitForIdle } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        capturedGroups.push(requests)
+      },
+      options: { timeoutMs: 30, waitForCheckpoint: true }
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      const responses = Promise.all([
+        fetch('https://api.example.com/users/1'),
+        fetch('https://api.example.com/users/2')
+      ])
+
+      await waitForIdle({ quietMs: 20 })
+
+      // 自動チェックポイントが実行され、待機中のレスポンスも解放されている
+      expect(capturedGroups).toHaveLength(1)
+      expect(capturedGroups[0]).toHaveLength(2)
+      expect(await responses).toHaveLength(2)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('waitForIdle()はリクエストがなければ即座に解決される', async () => {
+    const { waitForIdle } = createRequestsCaptureHandler({
+      handler: () => {},
+      options: { timeoutMs: 1000 }
+    })
+
+    await expect(waitForIdle()).resolves.toBeUndefined()
+  })
+})
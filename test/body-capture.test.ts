@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { createHash } from 'node:crypto'
+import { createRequestsCaptureHandler, type CapturedRequest, type CreateRequestsCaptureHandlerOptions } from '../src/index'
+
+// リクエストを送信し、キャプチャされたリクエストを返すヘルパー
+async function captureRequests(
+  options: Omit<CreateRequestsCaptureHandlerOptions, 'handler'>,
+  requests: Array<{ url: string; init: RequestInit }>
+): Promise<CapturedRequest[]> {
+  const capturedRequests: CapturedRequest[] = []
+
+  const { handler, checkpoint } = createRequestsCaptureHandler({
+    handler: (requests: CapturedRequest[]) => {
+      capturedRequests.push(...requests)
+    },
+    ...options
+  })
+
+  const userHandler = http.all('https://api.example.com/*', () => {
+    return HttpResponse.json({ success: true })
+  })
+
+  const server = setupServer(http.all('*', handler), userHandler)
+  server.listen()
+
+  try {
+    for (const { url, init } of requests) {
+      await fetch(url, init)
+    }
+    await checkpoint()
+    return capturedRequests
+  } finally {
+    server.close()
+  }
+}
+
+describe('ボディキャプチャの設定', () => {
+  it('デフォルトではPOST/PUT/PATCH以外のボディを読み取らない', async () => {
+    const capturedRequests = await captureRequests({}, [
+      { url: 'https://api.example.com/items/1', init: { method: 'DELETE', body: '{"reason":"test"}' } }
+    ])
+
+    expect(capturedRequests[0]).toEqual({
+      method: 'DELETE',
+      url: 'https://api.example.com/items/1'
+    })
+  })
+
+  it('methodsに指定したメソッドのボディを読み取る', async () => {
+    const capturedRequests = await captureRequests({ body: { methods: ['delete', 'REPORT'] } }, [
+      { url: 'https://api.example.com/items/1', init: { method: 'DELETE', body: '{"reason":"test"}' } },
+      { url: 'https://api.example.com/items/2', init: { method: 'REPORT', body: '<report/>' } },
+      { url: 'https://api.example.com/items/3', init: { method: 'POST', body: 'ignored' } }
+    ])
+
+    expect(capturedRequests.map(request => request.body)).toEqual([
+      '{"reason":"test"}',
+      '<report/>',
+      undefined
+    ])
+  })
+
+  it("'*'や関数で全てのメソッドや任意の条件を指定できる", async () => {
+    const all = await captureRequests({ body: { methods: '*' } }, [
+      { url: 'https://api.example.com/query', init: { method: 'QUERY', body: 'q' } }
+    ])
+    expect(all[0].body).toBe('q')
+
+    const predicate = await captureRequests(
+      { body: { methods: (request) => new URL(request.url).pathname === '/graphql' } },
+      [
+        { url: 'https://api.example.com/graphql', init: { method: 'PROPFIND', body: 'query' } },
+        { url: 'https://api.example.com/other', init: { method: 'POST', body: 'other' } }
+      ]
+    )
+    expect(predicate.map(request => request.body)).toEqual(['query', undefined])
+  })
+
+  it('maxBytesを超えるボディは切り詰められ、元のサイズとハッシュが記録される', async () => {
+    const capturedRequests = await captureRequests({ body: { maxBytes: 5 }, decodeBody: {} }, [
+      { url: 'https://api.example.com/upload', init: { method: 'POST', body: 'あいうえお' } },
+      { url: 'https://api.example.com/small', init: { method: 'POST', body: 'abc' } }
+    ])
+
+    const [small, upload] = capturedRequests
+
+    expect(small.body).toBe('abc')
+    expect(small.bodyTruncated).toBeUndefined()
+    expect(small.decodedBody).toEqual({ type: 'text', value: 'abc' })
+
+    // 5バイトでは「あ」(3バイト)のみが完全な文字として残る
+    expect(upload.body).toBe('あ')
+    expect(upload.bodyTruncated).toEqual({
+      originalLength: 15,
+      sha256: expect.stringMatching(/^[0-9a-f]{64}$/)
+    })
+    expect(upload.decodedBody).toBeUndefined()
+  })
+
+  it('複数のチャンクに分かれた大きなボディも全体のサイズとハッシュを記録する', async () => {
+    const body = 'x'.repeat(2 * 1024 * 1024 - 1) + 'y'
+    const capturedRequests = await captureRequests({ body: { maxBytes: 16 } }, [
+      { url: 'https://api.example.com/upload', init: { method: 'POST', body } }
+    ])
+
+    expect(capturedRequests[0].body).toBe('x'.repeat(16))
+    expect(capturedRequests[0].bodyTruncated).toEqual({
+      originalLength: body.length,
+      sha256: createHash('sha256').update(body).digest('hex')
+    })
+  })
+})
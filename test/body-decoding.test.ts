@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { createRequestsCaptureHandler, type CapturedRequest, type BodyDecodeOptions } from '../src/index'
+
+// 1リクエストを送信し、キャプチャされたリクエストを返すヘルパー
+async function captureSingle(init: RequestInit, decodeBody: BodyDecodeOptions = {}): Promise<CapturedRequest> {
+  const capturedRequests: CapturedRequest[] = []
+
+  const { handler, checkpoint } = createRequestsCaptureHandler({
+    handler: (requests: CapturedRequest[]) => {
+      capturedRequests.push(...requests)
+    },
+    decodeBody
+  })
+
+  const userHandler = http.post('https://api.example.com/upload', () => {
+    return HttpResponse.json({ success: true })
+  })
+
+  const server = setupServer(http.all('*', handler), userHandler)
+  server.listen()
+
+  try {
+    await fetch('https://api.example.com/upload', { method: 'POST', ...init })
+    await checkpoint()
+    return capturedRequests[0]
+  } finally {
+    server.close()
+  }
+}
+
+describe('ボディのデコード', () => {
+  it('JSONボディをパースする', async () => {
+    const request = await captureSingle({
+      headers: { 'Content-Type': 'application/json; charset=utf-8' },
+      body: JSON.stringify({ b: 2, a: 1 })
+    })
+
+    expect(request.body).toBe('{"b":2,"a":1}')
+    expect(request.decodedBody).toEqual({ type: 'json', value: { a: 1, b: 2 } })
+  })
+
+  it('URLSearchParamsをキー順のオブジェクトにする', async () => {
+    const request = await captureSingle({
+      body: new URLSearchParams([['tag', 'b'], ['name', 'taro'], ['tag', 'a']])
+    })
+
+    expect(request.decodedBody).toEqual({
+      type: 'form',
+      value: { name: 'taro', tag: ['b', 'a'] }
+    })
+  })
+
+  it('multipartのパートをファイル名・サイズ・ハッシュで列挙する', async () => {
+    const formData = new FormData()
+    formData.append('title', '写真')
+    formData.append('file', new Blob(['hello'], { type: 'text/plain' }), 'hello.txt')
+
+    const request = await captureSingle({ body: formData })
+
+    expect(request.decodedBody).toEqual({
+      type: 'multipart',
+      parts: [
+        { name: 'title', value: '写真' },
+        {
+          name: 'file',
+          fileName: 'hello.txt',
+          contentType: 'text/plain',
+          size: 5,
+          sha256: '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824'
+        }
+      ]
+    })
+  })
+
+  it('バイナリボディをbase64またはダイジェストで表現する', async () => {
+    const init = {
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: new Uint8Array([0, 1, 2, 255])
+    }
+
+    const base64Request = await captureSingle(init)
+    expect(base64Request.decodedBody).toEqual({ type: 'binary', size: 4, base64: 'AAEC/w==' })
+
+    const digestRequest = await captureSingle(init, { binary: 'digest' })
+    expect(digestRequest.decodedBody).toEqual({
+      type: 'binary',
+      size: 4,
+      sha256: expect.stringMatching(/^[0-9a-f]{64}$/)
+    })
+  })
+
+  it('独自のメディアタイプに対してデコーダーを登録できる', async () => {
+    const request = await captureSingle(
+      {
+        headers: { 'Content-Type': 'application/x-csv-lines' },
+        body: 'a,b\nc,d'
+      },
+      {
+        decoders: {
+          'application/x-csv-lines': async (request) => {
+            const text = await request.text()
+            return text.split('\n').map(line => line.split(','))
+          }
+        }
+      }
+    )
+
+    expect(request.decodedBody).toEqual({
+      type: 'custom',
+      mediaType: 'application/x-csv-lines',
+      value: [['a', 'b'], ['c', 'd']]
+    })
+  })
+
+  it('decodeBodyオプションなしではデコードしない', async () => {
+    const capturedRequests: CapturedRequest[] = []
+
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        capturedRequests.push(...requests)
+      }
+    })
+
+    const server = setupServer(http.all('*', handler), http.post('https://api.example.com/upload', () => HttpResponse.json({})))
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/upload', { method: 'POST', body: 'text' })
+      await checkpoint()
+
+      expect(capturedRequests[0].decodedBody).toBeUndefined()
+    } finally {
+      server.close()
+    }
+  })
+})
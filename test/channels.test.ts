@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { createChannelCaptureHandler, createVirtualScheduler, type CapturedRequest } from '../src/index'
+
+describe('名前付きチャンネル', () => {
+  const userHandler = http.all('*', () => {
+    return HttpResponse.json({ success: true })
+  })
+
+  it('リクエストをチャンネルごとのバッファに振り分け、個別にチェックポイントできる', async () => {
+    const paymentGroups: CapturedRequest[][] = []
+    const searchGroups: CapturedRequest[][] = []
+
+    const { handler, checkpoint } = createChannelCaptureHandler({
+      channels: {
+        payment: {
+          match: { host: 'payment.example.com' },
+          handler: (requests: CapturedRequest[]) => {
+            paymentGroups.push(requests)
+          }
+        },
+        search: {
+          match: [{ host: 'search.example.com' }, { path: '/api/search' }],
+          handler: (requests: CapturedRequest[]) => {
+            searchGroups.push(requests)
+          }
+        }
+      }
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://payment.example.com/charges', { method: 'POST', body: '{"amount":100}' })
+      await fetch('https://search.example.com/query?q=a')
+      await fetch('https://api.example.com/api/search')
+      await fetch('https://telemetry.example.com/beacon')
+
+      await checkpoint('payment')
+
+      expect(paymentGroups).toEqual([
+        [{ method: 'POST', url: 'https://payment.example.com/charges', body: '{"amount":100}' }]
+      ])
+      expect(searchGroups).toHaveLength(0)
+
+      await checkpoint()
+
+      expect(paymentGroups).toHaveLength(1)
+      expect(searchGroups).toEqual([
+        [
+          { method: 'GET', url: 'https://api.example.com/api/search' },
+          { method: 'GET', url: 'https://search.example.com/query?q=a' }
+        ]
+      ])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('チャンネルごとに異なるチェックポイント設定を持てる', async () => {
+    const groups: Record<string, CapturedRequest[][]> = { fast: [], slow: [] }
+    const scheduler = createVirtualScheduler()
+
+    const { handler, channels } = createChannelCaptureHandler({
+      channels: {
+        fast: {
+          match: { path: '/fast' },
+          handler: (requests: CapturedRequest[]) => {
+            groups.fast.push(requests)
+          },
+          options: { timeoutMs: 50 },
+          scheduler
+        },
+        slow: {
+          match: { path: '/slow' },
+          handler: (requests: CapturedRequest[]) => {
+            groups.slow.push(requests)
+          },
+          options: { timeoutMs: 500 },
+          scheduler
+        }
+      }
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/fast')
+      await fetch('https://api.example.com/slow')
+
+      await scheduler.advance(50)
+      expect(groups.fast).toHaveLength(1)
+      expect(groups.slow).toHaveLength(0)
+
+      const slowBatch = channels.slow.nextCheckpoint()
+      await scheduler.advance(450)
+      expect(await slowBatch).toEqual([{ method: 'GET', url: 'https://api.example.com/slow' }])
+    } finally {
+      server.close()
+    }
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import {
+  createHarSink,
+  createRequestsCaptureHandler,
+  createVirtualScheduler,
+  type CapturedRequest,
+  type CheckpointContext
+} from '../src/index'
+
+describe('チェックポイントの情報', () => {
+  const userHandler = http.all('*', () => {
+    return HttpResponse.json({ success: true })
+  })
+
+  it('ハンドラに通し番号・ラベル・理由・リクエストの時刻が渡される', async () => {
+    const contexts: CheckpointContext[] = []
+    const scheduler = createVirtualScheduler(1000)
+
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: (_requests: CapturedRequest[], context: CheckpointContext) => {
+        contexts.push(context)
+      },
+      options: { timeoutMs: 500 },
+      scheduler
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/login', { method: 'POST' })
+      await scheduler.advance(100)
+      await fetch('https://api.example.com/profile')
+      await checkpoint('after login')
+
+      // 空のバッチではハンドラは呼び出されず、通し番号も進まない
+      await checkpoint('empty')
+
+      await fetch('https://api.example.com/logout', { method: 'POST' })
+      await scheduler.advance(500)
+
+      expect(contexts).toEqual([
+        { sequence: 1, label: 'after login', trigger: 'manual', firstRequestAt: 1000, lastRequestAt: 1100 },
+        { sequence: 2, trigger: 'timeout', firstRequestAt: 1100, lastRequestAt: 1100 }
+      ])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('HARシンクはラベルをページのタイトルに使う', async () => {
+    const sink = createHarSink()
+    const { handler, checkpoint } = createRequestsCaptureHandler({ handler: sink.handler })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/login', { method: 'POST' })
+      await checkpoint('after login')
+      await fetch('https://api.example.com/profile')
+      await checkpoint()
+
+      expect(sink.har().log.pages.map(page => page.title)).toEqual(['after login', 'Checkpoint #2'])
+    } finally {
+      server.close()
+    }
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import {
+  createRequestsCaptureHandler,
+  createVirtualScheduler,
+  type CapturedRequest,
+  type CheckpointContext,
+  type CheckpointOptions
+} from '../src/index'
+
+describe('チェックポイントの条件', () => {
+  const userHandler = http.all('*', () => {
+    return HttpResponse.json({ success: true })
+  })
+
+  const setup = (options: CheckpointOptions) => {
+    const batches: { urls: string[]; trigger: string }[] = []
+    const scheduler = createVirtualScheduler()
+    const capturer = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[], context: CheckpointContext) => {
+        batches.push({ urls: requests.map(request => new URL(request.url).pathname), trigger: context.trigger })
+      },
+      options,
+      scheduler,
+      sort: 'arrival'
+    })
+    const server = setupServer(http.all('*', capturer.handler), userHandler)
+    server.listen()
+    return { ...capturer, batches, scheduler, server }
+  }
+
+  it('maxRequestsに達するとチェックポイントを作成する', async () => {
+    const { batches, checkpoint, server } = setup({ maxRequests: 2 })
+
+    try {
+      for (const path of ['/1', '/2', '/3', '/4', '/5']) {
+        await fetch(`https://api.example.com${path}`)
+      }
+      expect(batches).toEqual([
+        { urls: ['/1', '/2'], trigger: 'size' },
+        { urls: ['/3', '/4'], trigger: 'size' }
+      ])
+
+      await checkpoint()
+      expect(batches[2]).toEqual({ urls: ['/5'], trigger: 'manual' })
+    } finally {
+      server.close()
+    }
+  })
+
+  it('ボディの合計バイト数がmaxBodyBytes以上になるとチェックポイントを作成する', async () => {
+    const { batches, server } = setup({ maxBodyBytes: 10 })
+
+    try {
+      await fetch('https://api.example.com/a', { method: 'POST', body: '12345' })
+      await fetch('https://api.example.com/b')
+      expect(batches).toHaveLength(0)
+
+      await fetch('https://api.example.com/c', { method: 'POST', body: 'あい' })
+      expect(batches).toEqual([{ urls: ['/a', '/b', '/c'], trigger: 'size' }])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('maxBodyBytesの合計はチェックポイントと破棄のたびに数え直す', async () => {
+    const { batches, checkpoint, discard, server } = setup({ maxBodyBytes: 10 })
+
+    try {
+      await fetch('https://api.example.com/a', { method: 'POST', body: '123456' })
+      await checkpoint()
+      await fetch('https://api.example.com/b', { method: 'POST', body: '123456' })
+      discard()
+      await fetch('https://api.example.com/c', { method: 'POST', body: '123456' })
+      expect(batches).toEqual([{ urls: ['/a'], trigger: 'manual' }])
+
+      await fetch('https://api.example.com/d', { method: 'POST', body: '1234' })
+      expect(batches[1]).toEqual({ urls: ['/c', '/d'], trigger: 'size' })
+    } finally {
+      server.close()
+    }
+  })
+
+  it('flushOnの条件にマッチするリクエストでチェックポイントを作成する', async () => {
+    const { batches, server } = setup({
+      flushOn: [
+        { method: 'POST', path: '/api/submit' },
+        request => request.body === 'logout'
+      ]
+    })
+
+    try {
+      await fetch('https://api.example.com/api/form')
+      await fetch('https://api.example.com/api/submit', { method: 'POST', body: 'form' })
+      await fetch('https://api.example.com/api/session', { method: 'POST', body: 'logout' })
+      await fetch('https://api.example.com/api/submit')
+
+      expect(batches).toEqual([
+        { urls: ['/api/form', '/api/submit'], trigger: 'match' },
+        { urls: ['/api/session'], trigger: 'match' }
+      ])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('maxWaitMsはリクエストが続いていてもチェックポイントを作成する', async () => {
+    const { batches, scheduler, server } = setup({ timeoutMs: 100, maxWaitMs: 250 })
+
+    try {
+      // 50msごとのリクエストでtimeoutMsのタイマーは延長され続ける
+      for (let i = 1; i <= 6; i++) {
+        await fetch(`https://api.example.com/${i}`)
+        await scheduler.advance(50)
+      }
+
+      expect(batches).toEqual([{ urls: ['/1', '/2', '/3', '/4', '/5'], trigger: 'maxWait' }])
+
+      await scheduler.advance(100)
+      expect(batches[1]).toEqual({ urls: ['/6'], trigger: 'timeout' })
+      expect(scheduler.pending()).toBe(0)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('waitForCheckpointで待機中のレスポンスはリクエスト数の条件で解放される', async () => {
+    const { batches, server } = setup({ maxRequests: 2, waitForCheckpoint: true })
+
+    try {
+      const responses = await Promise.all([
+        fetch('https://api.example.com/a'),
+        fetch('https://api.example.com/b')
+      ])
+
+      expect(responses.map(response => response.status)).toEqual([200, 200])
+      expect(batches).toHaveLength(1)
+      expect(batches[0].trigger).toBe('size')
+    } finally {
+      server.close()
+    }
+  })
+})
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { setTimeout } from 'timers/promises'
+import { createRequestsCaptureHandler, createVirtualScheduler, CaptureHandlerError, type CapturedRequest, type CheckpointFailure } from '../src/index'
+
+describe('ハンドラーのエラー処理', () => {
+  const userHandler = http.get('https://api.example.com/:path', ({ params }) => {
+    return HttpResponse.json({ path: params.path })
+  })
+
+  it('ハンドラーが例外を投げてもバッチをリセットし、待機中のレスポンスを解放する', async () => {
+    const processedGroups: CapturedRequest[][] = []
+    let shouldFail = true
+
+    const { handler, checkpoint, failures } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        if (shouldFail) {
+          throw new Error('ハンドラーの失敗')
+        }
+        processedGroups.push([...requests])
+      },
+      options: { timeoutMs: 1000, waitForCheckpoint: true }
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      const responsePromise = fetch('https://api.example.com/first')
+      await setTimeout(20)
+
+      // 失敗したバッチの内容を含むエラーでrejectされる
+      const error = await checkpoint().catch(error => error)
+      expect(error).toBeInstanceOf(CaptureHandlerError)
+      expect(error.message).toContain('ハンドラーの失敗')
+      expect(error.message).toContain('GET https://api.example.com/first')
+      expect(error.cause).toBeInstanceOf(Error)
+
+      // 待機中のレスポンスは解放されている
+      const response = await responsePromise
+      expect(await response.json()).toEqual({ path: 'first' })
+
+      // 失敗したバッチが記録されている
+      expect(failures).toHaveLength(1)
+      expect(failures[0].requests.map(request => request.url)).toEqual(['https://api.example.com/first'])
+
+      // バッチはリセットされており、次のチェックポイントには新しいリクエストのみが含まれる
+      shouldFail = false
+      const nextResponse = fetch('https://api.example.com/second')
+      await setTimeout(20)
+      await checkpoint()
+      await nextResponse
+
+      expect(processedGroups).toHaveLength(1)
+      expect(processedGroups[0].map(request => request.url)).toEqual(['https://api.example.com/second'])
+    } finally {
+      server.close()
+    }
+  })
+
+  it("onError: 'collect' の場合はエラーを記録してcheckpointを解決する", async () => {
+    const { handler, checkpoint, failures } = createRequestsCaptureHandler({
+      handler: async () => {
+        throw new Error('非同期の失敗')
+      },
+      onError: 'collect'
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/test')
+      await expect(checkpoint()).resolves.toBeUndefined()
+
+      expect(failures).toHaveLength(1)
+      expect((failures[0].error as Error).message).toBe('非同期の失敗')
+    } finally {
+      server.close()
+    }
+  })
+
+  it("onError: 'log' の場合はconsole.errorに出力する", async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: () => {
+        throw new Error('ログされる失敗')
+      },
+      onError: 'log'
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/test')
+      await checkpoint()
+
+      expect(consoleError).toHaveBeenCalledTimes(1)
+      expect(consoleError.mock.calls[0][0]).toBeInstanceOf(CaptureHandlerError)
+    } finally {
+      consoleError.mockRestore()
+      server.close()
+    }
+  })
+
+  it('onErrorに関数を指定すると失敗の記録を受け取る', async () => {
+    const received: CheckpointFailure[] = []
+
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: () => {
+        throw new Error('失敗')
+      },
+      onError: (failure) => {
+        received.push(failure)
+      }
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/test')
+      await checkpoint()
+
+      expect(received).toHaveLength(1)
+      expect(received[0].requests).toEqual([
+        { method: 'GET', url: 'https://api.example.com/test' }
+      ])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('自動チェックポイントでハンドラーが例外を投げた場合、nextCheckpoint()をrejectする', async () => {
+    const scheduler = createVirtualScheduler()
+    const { handler, nextCheckpoint, failures } = createRequestsCaptureHandler({
+      handler: () => {
+        throw new Error('自動チェックポイントの失敗')
+      },
+      options: { timeoutMs: 10 },
+      scheduler
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      const waiting = nextCheckpoint()
+      await fetch('https://api.example.com/test')
+      await scheduler.advance(10)
+
+      const error = await waiting.catch(error => error)
+      expect(error).toBeInstanceOf(CaptureHandlerError)
+      expect(error.message).toContain('自動チェックポイントの失敗')
+      expect(failures).toHaveLength(1)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('自動チェックポイントの失敗を待機者がいない場合はconsole.errorに出力する', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const scheduler = createVirtualScheduler()
+    const { handler, failures } = createRequestsCaptureHandler({
+      handler: () => {
+        throw new Error('自動チェックポイントの失敗')
+      },
+      options: { timeoutMs: 10 },
+      scheduler
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/test')
+      await scheduler.advance(10)
+
+      // 未処理のrejectionにはならず、console.errorに出力される
+      expect(consoleError).toHaveBeenCalledTimes(1)
+      expect(consoleError.mock.calls[0][0]).toBeInstanceOf(CaptureHandlerError)
+      expect(failures).toHaveLength(1)
+    } finally {
+      consoleError.mockRestore()
+      server.close()
+    }
+  })
+})
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import {
+  createRequestsCaptureHandler,
+  ExpectationError,
+  verifyExpectations,
+  type CapturedRequest
+} from '../src/index'
+
+describe('期待するリクエストの宣言', () => {
+  const userHandler = http.all('*', () => {
+    return HttpResponse.json({ success: true })
+  })
+
+  const setup = () => {
+    const batches: CapturedRequest[][] = []
+    const capturer = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        batches.push(requests)
+      }
+    })
+    const server = setupServer(http.all('*', capturer.handler), userHandler)
+    server.listen()
+    return { ...capturer, batches, server }
+  }
+
+  it('宣言を満たすバッチはチェックポイントに成功する（到着順によらない）', async () => {
+    const { expectRequests, checkpoint, batches, server } = setup()
+
+    try {
+      expectRequests([
+        { match: { method: 'POST', path: '/data', json: { test: 'data1' } } },
+        { match: { method: 'POST', path: '/data' }, times: 2 },
+        { exact: { method: 'GET', url: 'https://api.example.com/users' } },
+        { match: { path: '/metrics' }, optional: true },
+        { match: { method: 'DELETE' }, forbidden: true }
+      ])
+
+      await Promise.all([
+        fetch('https://api.example.com/data', { method: 'POST', body: '{"test":"data3"}' }),
+        fetch('https://api.example.com/users'),
+        fetch('https://api.example.com/data', { method: 'POST', body: '{"test":"data2"}' }),
+        fetch('https://api.example.com/data', { method: 'POST', body: '{"test":"data1"}' })
+      ])
+
+      await checkpoint()
+      expect(batches[0]).toHaveLength(4)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('宣言と一致しない場合は不足・想定外・内容の異なるリクエストを含むエラーになる', async () => {
+    const { expectRequests, checkpoint, batches, server } = setup()
+
+    try {
+      expectRequests([
+        { match: { method: 'POST', path: '/data', json: { test: 'data1' } } },
+        { match: { method: 'GET', path: '/users/:id' }, times: 2 },
+        { match: { method: 'DELETE' }, forbidden: true }
+      ])
+
+      await fetch('https://api.example.com/data', { method: 'POST', body: '{"test":"other"}' })
+      await fetch('https://api.example.com/users/1')
+      await fetch('https://api.example.com/users/1', { method: 'DELETE' })
+      await fetch('https://api.example.com/unknown')
+
+      const error = await checkpoint().catch(error => error)
+
+      expect(error).toBeInstanceOf(ExpectationError)
+      expect(error.missing).toEqual([
+        { expectation: { match: { method: 'GET', path: '/users/:id' }, times: 2 }, expected: 2, actual: 1 }
+      ])
+      expect(error.unexpected).toEqual([
+        { method: 'GET', url: 'https://api.example.com/unknown' },
+        { method: 'DELETE', url: 'https://api.example.com/users/1' }
+      ])
+      expect(error.mismatched).toEqual([
+        {
+          expectation: { match: { method: 'POST', path: '/data', json: { test: 'data1' } } },
+          request: { method: 'POST', url: 'https://api.example.com/data', body: '{"test":"other"}' }
+        }
+      ])
+      expect(error.message).toContain('（期待: 2 件、実際: 1 件）')
+      expect(error.message).toContain('  実際: POST https://api.example.com/data {"test":"other"}')
+
+      // ハンドラは宣言と一致しない場合も呼び出される
+      expect(batches).toHaveLength(1)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('宣言したリクエストがない空のバッチもエラーになる', async () => {
+    const { expectRequests, checkpoint, server } = setup()
+
+    try {
+      expectRequests([{ match: { path: '/users' } }])
+
+      const error = await checkpoint().catch(error => error)
+      expect(error).toBeInstanceOf(ExpectationError)
+      expect(error.missing).toHaveLength(1)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('宣言は次のチェックポイントでのみ使われる', async () => {
+    const { expectRequests, checkpoint, server } = setup()
+
+    try {
+      expectRequests([])
+      await fetch('https://api.example.com/users')
+      await expect(checkpoint()).rejects.toBeInstanceOf(ExpectationError)
+
+      await fetch('https://api.example.com/users')
+      await expect(checkpoint()).resolves.toBeUndefined()
+    } finally {
+      server.close()
+    }
+  })
+
+  it('自動チェックポイントで宣言と一致しない場合は、nextCheckpoint()をエラーでrejectする', async () => {
+    const batches: CapturedRequest[][] = []
+    const { handler, expectRequests, nextCheckpoint } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        batches.push(requests)
+      },
+      options: { maxRequests: 1 }
+    })
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      expectRequests([{ match: { method: 'POST' } }])
+      const waiting = nextCheckpoint()
+      await fetch('https://api.example.com/users')
+
+      const error = await waiting.catch(error => error)
+      expect(error).toBeInstanceOf(ExpectationError)
+      expect(error.missing).toHaveLength(1)
+      expect(error.unexpected).toEqual([{ method: 'GET', url: 'https://api.example.com/users' }])
+      // ハンドラーはバッチを受け取っている
+      expect(batches).toHaveLength(1)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('非対称マッチャーで部分一致の宣言ができる', () => {
+    const result = verifyExpectations(
+      [{ method: 'POST', url: 'https://api.example.com/data', body: '{"test":"data1","id":1}' }],
+      [{ match: { json: expect.objectContaining({ test: 'data1' }) } }]
+    )
+
+    expect(result).toEqual({ missing: [], unexpected: [], mismatched: [] })
+  })
+})
@@ -0,0 +1,207 @@
+import { describe, it, expect } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { setTimeout } from 'timers/promises'
+import {
+  createRequestsCaptureHandler,
+  createVirtualScheduler,
+  type AppliedFault,
+  type CapturedRequest,
+  type FaultInjectionOptions
+} from '../src/index'
+
+describe('障害の注入', () => {
+  const userHandler = http.all('*', () => {
+    return HttpResponse.json({ success: true })
+  })
+
+  const run = async (faults: FaultInjectionOptions) => {
+    const batches: CapturedRequest[][] = []
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        batches.push(requests)
+      },
+      faults,
+      sort: 'arrival'
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      const outcomes: (number | 'error')[] = []
+      for (let i = 1; i <= 20; i++) {
+        try {
+          outcomes.push((await fetch(`https://api.example.com/items/${i}`)).status)
+        } catch {
+          outcomes.push('error')
+        }
+      }
+      await checkpoint()
+      return { outcomes, faults: batches[0].map(request => request.fault) }
+    } finally {
+      server.close()
+    }
+  }
+
+  it('同じシードであれば同じリクエストに同じ障害を注入し、バッチに記録する', async () => {
+    const options: FaultInjectionOptions = {
+      seed: 7,
+      rules: [
+        { rate: 0.2, fault: { type: 'networkError' } },
+        { rate: 0.3, fault: { type: 'status', status: 503 } }
+      ]
+    }
+
+    const first = await run(options)
+    expect(await run(options)).toEqual(first)
+
+    // 記録された障害と実際の結果が一致する
+    first.faults.forEach((fault, index) => {
+      const expected = fault === undefined ? 200 : fault.type === 'networkError' ? 'error' : 503
+      expect(first.outcomes[index]).toBe(expected)
+    })
+    expect(first.outcomes).toContain('error')
+    expect(first.outcomes).toContain(503)
+    expect(first.outcomes).toContain(200)
+
+    // シードが異なれば結果も異なる
+    expect((await run({ ...options, seed: 8 })).faults).not.toEqual(first.faults)
+  })
+
+  it('条件にマッチするリクエストのみに障害を注入し、エラーレスポンスのボディとヘッダーを指定できる', async () => {
+    const batches: CapturedRequest[][] = []
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        batches.push(requests)
+      },
+      faults: {
+        seed: 1,
+        rules: [{
+          match: { method: 'POST', path: '/api/orders' },
+          rate: 1,
+          fault: { type: 'status', status: 429, body: 'rate limited', headers: { 'retry-after': '1' } }
+        }]
+      }
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      const limited = await fetch('https://api.example.com/api/orders', { method: 'POST', body: '{}' })
+      expect(limited.status).toBe(429)
+      expect(limited.headers.get('retry-after')).toBe('1')
+      expect(await limited.text()).toBe('rate limited')
+
+      expect((await fetch('https://api.example.com/api/orders')).status).toBe(200)
+      await checkpoint()
+
+      expect(batches[0]).toEqual([
+        { method: 'GET', url: 'https://api.example.com/api/orders' },
+        { method: 'POST', url: 'https://api.example.com/api/orders', body: '{}', fault: { type: 'status', status: 429 } }
+      ])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('障害はボディの読み取りを待たずに到着順で決める', async () => {
+    const batches: CapturedRequest[][] = []
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        batches.push(requests)
+      },
+      // シード5の乱数は0.238、0.732の順で、最初に到着したリクエストのみに注入される
+      faults: { seed: 5, rules: [{ rate: 0.5, fault: { type: 'status', status: 503 } }] },
+      sort: 'arrival'
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      // 大きなボディの読み取りは後から到着したリクエストより遅く終わる
+      const [big, small] = await Promise.all([
+        fetch('https://api.example.com/big', { method: 'POST', body: 'x'.repeat(2 * 1024 * 1024) }),
+        fetch('https://api.example.com/small')
+      ])
+      expect(big.status).toBe(503)
+      expect(small.status).toBe(200)
+
+      await checkpoint()
+      expect(batches[0].map(request => [new URL(request.url).pathname, request.fault])).toEqual([
+        ['/big', { type: 'status', status: 503 }],
+        ['/small', undefined]
+      ])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('遅延はスケジューラーで待機してから後続のハンドラーに処理を渡す', async () => {
+    const scheduler = createVirtualScheduler()
+    const faults: (AppliedFault | undefined)[] = []
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        faults.push(...requests.map(request => request.fault))
+      },
+      faults: { seed: 3, rules: [{ rate: 1, fault: { type: 'latency', ms: { min: 100, max: 200 } } }] },
+      scheduler
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      let settled = false
+      const responsePromise = fetch('https://api.example.com/slow').then(response => {
+        settled = true
+        return response
+      })
+      await setTimeout(20)
+      expect(scheduler.pending()).toBe(1)
+      expect(settled).toBe(false)
+
+      await scheduler.advance(200)
+      expect((await responsePromise).status).toBe(200)
+
+      await checkpoint()
+      expect(faults).toEqual([{ type: 'latency', ms: expect.any(Number) }])
+      const [fault] = faults as { ms: number }[]
+      expect(fault.ms).toBeGreaterThanOrEqual(100)
+      expect(fault.ms).toBeLessThanOrEqual(200)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('レスポンスをキャプチャする場合、ネットワークエラーのリクエストはレスポンスなしで確定する', async () => {
+    const batches: CapturedRequest[][] = []
+    const { handler, checkpoint, observe } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        batches.push(requests)
+      },
+      responses: {},
+      faults: { seed: 1, rules: [{ match: { path: '/flaky' }, rate: 1, fault: { type: 'networkError' } }] }
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    const unobserve = observe(server.events)
+    server.listen()
+
+    try {
+      await expect(fetch('https://api.example.com/flaky')).rejects.toThrow()
+      await fetch('https://api.example.com/stable')
+      await checkpoint()
+
+      expect(batches[0]).toEqual([
+        { method: 'GET', url: 'https://api.example.com/flaky', fault: { type: 'networkError' } },
+        { method: 'GET', url: 'https://api.example.com/stable', response: expect.objectContaining({ status: 200 }) }
+      ])
+    } finally {
+      unobserve()
+      server.close()
+    }
+  })
+})
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createHarSink, createRequestsCaptureHandler, createVirtualScheduler, toHar } from '../src/index'
+
+describe('HARエクスポート', () => {
+  const userHandler = http.all('*', () => {
+    return HttpResponse.json({ success: true })
+  })
+
+  it('チェックポイントごとにページを作り、リクエストとレスポンスをエントリーにする', async () => {
+    const scheduler = createVirtualScheduler(Date.UTC(2024, 0, 1))
+    const sink = createHarSink({ scheduler })
+    const { handler, checkpoint, observe } = createRequestsCaptureHandler({
+      handler: sink.handler,
+      headers: { allow: ['content-type'] },
+      responses: { headers: { allow: ['content-type'] } }
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    const unobserve = observe(server.events)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/data?page=1', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{"test":"data1"}'
+      })
+      await checkpoint()
+
+      await scheduler.advance(1000)
+      await fetch('https://api.example.com/users')
+      await checkpoint()
+
+      const { log } = sink.har()
+      expect(log.version).toBe('1.2')
+      expect(log.pages).toEqual([
+        { startedDateTime: '2024-01-01T00:00:00.000Z', id: 'page_1', title: 'Checkpoint #1', pageTimings: {} },
+        { startedDateTime: '2024-01-01T00:00:01.000Z', id: 'page_2', title: 'Checkpoint #2', pageTimings: {} }
+      ])
+      expect(log.entries).toHaveLength(2)
+      expect(log.entries[0]).toMatchObject({
+        pageref: 'page_1',
+        startedDateTime: '2024-01-01T00:00:00.000Z',
+        request: {
+          method: 'POST',
+          url: 'https://api.example.com/data?page=1',
+          headers: [{ name: 'content-type', value: 'application/json' }],
+          queryString: [{ name: 'page', value: '1' }],
+          postData: { mimeType: 'application/json', text: '{"test":"data1"}' },
+          bodySize: 16
+        },
+        response: {
+          status: 200,
+          headers: [{ name: 'content-type', value: 'application/json' }],
+          content: { size: 16, mimeType: 'application/json', text: '{"success":true}' }
+        }
+      })
+      expect(log.entries[1]).toMatchObject({
+        pageref: 'page_2',
+        request: { method: 'GET', url: 'https://api.example.com/users', bodySize: 0 }
+      })
+      expect(log.entries[1].request.postData).toBeUndefined()
+    } finally {
+      unobserve()
+      server.close()
+    }
+  })
+
+  it('レスポンスがないリクエストはステータス0で出力する', () => {
+    const { log } = toHar([
+      { requests: [{ method: 'GET', url: 'https://api.example.com/users' }], time: 0, title: 'ログイン後' }
+    ])
+
+    expect(log.pages[0].title).toBe('ログイン後')
+    expect(log.entries[0].response).toMatchObject({ status: 0, content: { size: 0, mimeType: '' } })
+  })
+
+  it('ファイルを指定するとチェックポイントのたびに書き出す', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'capture-requests-'))
+    const file = join(dir, 'recordings', 'session.har')
+    const sink = createHarSink({ file, pageTitle: index => `バッチ${index}` })
+    const { handler, checkpoint } = createRequestsCaptureHandler({ handler: sink.handler })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/users')
+      await checkpoint()
+
+      const har = JSON.parse(readFileSync(file, 'utf-8'))
+      expect(har).toEqual(sink.har())
+      expect(har.log.pages[0].title).toBe('バッチ1')
+    } finally {
+      server.close()
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { createRequestsCaptureHandler, type CapturedRequest } from '../src/index'
+
+describe('ヘッダーのキャプチャ', () => {
+  const userHandler = http.all('https://api.example.com/*', () => {
+    return HttpResponse.json({ success: true })
+  })
+
+  it('headersオプションなしではヘッダーをキャプチャしない', async () => {
+    const capturedRequests: CapturedRequest[] = []
+
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        capturedRequests.push(...requests)
+      }
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/users', {
+        headers: { 'X-Request-Id': 'abc' }
+      })
+
+      checkpoint()
+
+      expect(capturedRequests[0]).toEqual({
+        method: 'GET',
+        url: 'https://api.example.com/users'
+      })
+    } finally {
+      server.close()
+    }
+  })
+
+  it('全てのヘッダーを小文字化・ソートしてキャプチャし、認証系ヘッダーを伏せ字にする', async () => {
+    const capturedRequests: CapturedRequest[] = []
+
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        capturedRequests.push(...requests)
+      },
+      headers: {}
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/users', {
+        headers: {
+          'X-Tenant-Id': 'tenant-1',
+          'Authorization': 'Bearer secret-token',
+          'Cookie': 'session=secret',
+          'X-Request-Id': 'abc'
+        }
+      })
+
+      checkpoint()
+
+      const headers = capturedRequests[0].headers!
+      expect(headers).toMatchObject({
+        'authorization': '<REDACTED>',
+        'cookie': '<REDACTED>',
+        'x-request-id': 'abc',
+        'x-tenant-id': 'tenant-1'
+      })
+      expect(Object.keys(headers)).toEqual([...Object.keys(headers)].sort())
+    } finally {
+      server.close()
+    }
+  })
+
+  it('allowに指定したヘッダーのみをキャプチャする', async () => {
+    const capturedRequests: CapturedRequest[] = []
+
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        capturedRequests.push(...requests)
+      },
+      headers: { allow: ['Content-Type', 'Authorization'], placeholder: '***' }
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/users', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': 'Bearer secret-token',
+          'X-Request-Id': 'abc'
+        },
+        body: '{}'
+      })
+
+      checkpoint()
+
+      expect(capturedRequests[0].headers).toEqual({
+        'authorization': '***',
+        'content-type': 'application/json'
+      })
+    } finally {
+      server.close()
+    }
+  })
+
+  it('denyに指定したヘッダーを除外し、redactで伏せ字対象を変更できる', async () => {
+    const capturedRequests: CapturedRequest[] = []
+
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        capturedRequests.push(...requests)
+      },
+      headers: {
+        allow: ['authorization', 'x-api-key', 'x-request-id', 'x-trace-id'],
+        deny: ['X-Trace-Id'],
+        redact: ['X-Api-Key']
+      }
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/users', {
+        headers: {
+          'Authorization': 'Bearer visible',
+          'X-Api-Key': 'key',
+          'X-Request-Id': 'abc',
+          'X-Trace-Id': 'trace'
+        }
+      })
+
+      checkpoint()
+
+      expect(capturedRequests[0].headers).toEqual({
+        'authorization': 'Bearer visible',
+        'x-api-key': '<REDACTED>',
+        'x-request-id': 'abc'
+      })
+    } finally {
+      server.close()
+    }
+  })
+})
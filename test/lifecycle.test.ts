@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { setTimeout } from 'timers/promises'
+import {
+  CaptureDisposedError,
+  createRequestsCaptureHandler,
+  createVirtualScheduler,
+  type CapturedRequest,
+  type CheckpointContext
+} from '../src/index'
+
+describe('ライフサイクル', () => {
+  const userHandler = http.all('*', () => {
+    return HttpResponse.json({ success: true })
+  })
+
+  it('discardはバッファをハンドラに渡さずに破棄し、自動チェックポイントのタイマーを止める', async () => {
+    const batches: CapturedRequest[][] = []
+    const scheduler = createVirtualScheduler()
+
+    const { handler, discard } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        batches.push(requests)
+      },
+      options: { timeoutMs: 100 },
+      scheduler
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/users')
+      expect(scheduler.pending()).toBe(1)
+
+      expect(discard()).toEqual([{ method: 'GET', url: 'https://api.example.com/users' }])
+      expect(scheduler.pending()).toBe(0)
+
+      await scheduler.runAll()
+      expect(batches).toHaveLength(0)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('releaseAllは待機中のレスポンスを解放し、バッファはそのまま残す', async () => {
+    const batches: CapturedRequest[][] = []
+
+    const { handler, checkpoint, releaseAll, getHeldCount } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        batches.push(requests)
+      },
+      options: { timeoutMs: 60_000, waitForCheckpoint: true }
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      const responsePromise = fetch('https://api.example.com/users')
+      await setTimeout(20)
+      expect(getHeldCount()).toBe(1)
+
+      expect(releaseAll()).toBe(1)
+      expect((await responsePromise).status).toBe(200)
+      expect(batches).toHaveLength(0)
+
+      await checkpoint()
+      expect(batches).toEqual([[{ method: 'GET', url: 'https://api.example.com/users' }]])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('disposeは残りをdisposeのチェックポイントで処理し、以降のリクエストはキャプチャしない', async () => {
+    const contexts: CheckpointContext[] = []
+    const scheduler = createVirtualScheduler()
+
+    const { handler, dispose, nextCheckpoint, waitForIdle } = createRequestsCaptureHandler({
+      handler: (_requests: CapturedRequest[], context: CheckpointContext) => {
+        contexts.push(context)
+      },
+      options: { timeoutMs: 100 },
+      scheduler
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/users')
+      const idle = waitForIdle({ quietMs: 1000 })
+
+      await dispose()
+      expect(contexts).toMatchObject([{ sequence: 1, trigger: 'dispose' }])
+      expect(scheduler.pending()).toBe(0)
+      await idle
+
+      // 破棄後のリクエストは後続のハンドラーで処理され、キャプチャされない
+      const response = await fetch('https://api.example.com/users')
+      expect(response.status).toBe(200)
+      expect(scheduler.pending()).toBe(0)
+      await expect(nextCheckpoint()).rejects.toBeInstanceOf(CaptureDisposedError)
+      expect(contexts).toHaveLength(1)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('disposeは待機中のnextCheckpointをrejectし、待機中のレスポンスを解放する', async () => {
+    const batches: CapturedRequest[][] = []
+
+    const { handler, dispose, nextCheckpoint } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        batches.push(requests)
+      },
+      options: { timeoutMs: 60_000, waitForCheckpoint: true }
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      const responsePromise = fetch('https://api.example.com/users')
+      await setTimeout(20)
+      const waiting = nextCheckpoint()
+
+      await dispose({ flush: false })
+
+      await expect(waiting).rejects.toBeInstanceOf(CaptureDisposedError)
+      expect((await responsePromise).status).toBe(200)
+      expect(batches).toHaveLength(0)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('afterDisposeがthrowの場合、破棄後のリクエストはエラーになる', async () => {
+    const { handler, dispose } = createRequestsCaptureHandler({
+      handler: () => {},
+      afterDispose: 'throw'
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await dispose()
+
+      const response = await fetch('https://api.example.com/users')
+      expect(response.status).toBe(500)
+      expect(await response.text()).toContain('破棄されたキャプチャハンドラーにリクエストが到着しました: GET https://api.example.com/users')
+    } finally {
+      server.close()
+    }
+  })
+})
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import {
+  createRequestsCaptureHandler,
+  aliasOrigins,
+  canonicalizeJson,
+  maskIsoDates,
+  maskUuids,
+  sortQueryParams,
+  stripQueryParams,
+  type CapturedRequest
+} from '../src/index'
+
+describe('正規化パイプライン', () => {
+  it('チェックポイントで正規化してからソートしてハンドラに渡す', async () => {
+    const capturedRequests: CapturedRequest[] = []
+
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        capturedRequests.push(...requests)
+      },
+      headers: { allow: ['origin'] },
+      normalize: [
+        aliasOrigins({ 'http://localhost:5173': '<APP>' }),
+        stripQueryParams(['_']),
+        sortQueryParams(),
+        maskUuids(),
+        maskIsoDates(),
+        canonicalizeJson()
+      ]
+    })
+
+    const userHandler = http.all('http://localhost:5173/*', () => {
+      return HttpResponse.json({ success: true })
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('http://localhost:5173/api/events?z=1&_=1700000000000&a=2', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Origin': 'http://localhost:5173' },
+        body: JSON.stringify({
+          occurredAt: '2024-05-01T12:34:56.789Z',
+          id: '3f2504e0-4f89-11d3-9a0c-0305e82c3301'
+        })
+      })
+      await fetch('http://localhost:5173/api/users/9b2d7e4c-1c2f-4a57-9d1e-0a6b3c8f1e22')
+
+      await checkpoint()
+
+      expect(capturedRequests).toEqual([
+        {
+          method: 'POST',
+          url: '<APP>/api/events?a=2&z=1',
+          body: '{"id":"<UUID>","occurredAt":"<DATE>"}',
+          headers: { origin: '<APP>' }
+        },
+        {
+          method: 'GET',
+          url: '<APP>/api/users/<UUID>',
+          headers: {}
+        }
+      ])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('組み込みルールは元のリクエストを変更しない', () => {
+    const request: CapturedRequest = {
+      method: 'GET',
+      url: 'https://api.example.com/items?b=1&a=2#top',
+      headers: { referer: 'https://api.example.com/' }
+    }
+
+    expect(sortQueryParams()(request).url).toBe('https://api.example.com/items?a=2&b=1#top')
+    expect(stripQueryParams(['a', 'b'])(request).url).toBe('https://api.example.com/items#top')
+    expect(aliasOrigins({ 'https://api.example.com': '<API>' })(request)).toEqual({
+      method: 'GET',
+      url: '<API>/items?b=1&a=2#top',
+      headers: { referer: '<API>/' }
+    })
+    expect(request.url).toBe('https://api.example.com/items?b=1&a=2#top')
+  })
+
+  it('canonicalizeJsonはデコード済みボディとレスポンスのキー順も正規化する', () => {
+    const request: CapturedRequest = {
+      method: 'POST',
+      url: 'https://api.example.com/items',
+      body: 'not json',
+      decodedBody: { type: 'json', value: { b: { d: 1, c: 2 }, a: [{ y: 1, x: 2 }] } },
+      response: { status: 200, body: { z: 1, a: 2 } }
+    }
+
+    const normalized = canonicalizeJson()(request)
+
+    expect(normalized.body).toBe('not json')
+    expect(JSON.stringify(normalized.decodedBody)).toBe('{"type":"json","value":{"a":[{"x":2,"y":1}],"b":{"c":2,"d":1}}}')
+    expect(JSON.stringify(normalized.response?.body)).toBe('{"a":2,"z":1}')
+  })
+})
@@ -61,7 +61,7 @@ describe('ランダムタイミングでの通信安定性テスト (Seed固定)
       expect(capturedRequests).toHaveLength(6)
       
       // 結果をURL・メソッドでグループ化して検証
-      // 同じURL・メソッドの場合、リクエストの順序は実行順によって変わる可能性がある
+      // 同じURL・メソッドの場合もボディで並ぶため、リクエストの順序は実行順によらない
       
       // リクエストをグループ分けして検証
       const postRequests = capturedRequests.filter(req => req.method === 'POST')
@@ -74,6 +74,7 @@ describe('ランダムタイミングでの通信安定性テスト (Seed固定)
       const postBodies = postRequests.map(req => req.body).sort()
       const expectedBodies = ['{"test":"data1"}', '{"test":"data2"}'].sort()
       expect(postBodies).toEqual(expectedBodies)
+      expect(postRequests.map(req => req.body)).toEqual(['{"test":"data1"}', '{"test":"data2"}'])
       
       // GETリクエストの検証
       expect(getRequests).toHaveLength(4)
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { setTimeout } from 'timers/promises'
+import {
+  createRequestsCaptureHandler,
+  type CheckpointOptions
+} from '../src/index'
+
+describe('待機中のレスポンスの解放順', () => {
+  const setup = (options: CheckpointOptions) => {
+    // 後続のハンドラーが処理した順を記録する
+    const responded: string[] = []
+    const capturer = createRequestsCaptureHandler({
+      handler: () => {},
+      options: { timeoutMs: 60_000, waitForCheckpoint: true, ...options }
+    })
+    const server = setupServer(
+      http.all('*', capturer.handler),
+      http.get('https://api.example.com/search', ({ request }) => {
+        const query = new URL(request.url).searchParams.get('q') ?? ''
+        responded.push(query)
+        return HttpResponse.json({ query })
+      })
+    )
+    server.listen()
+    return { ...capturer, responded, server }
+  }
+
+  const search = async (query: string) => {
+    const response = await fetch(`https://api.example.com/search?q=${query}`)
+    return (await response.json()) as { query: string }
+  }
+
+  it('releaseNextで1件ずつ逆順に解放し、後のリクエストのレスポンスを先に返せる', async () => {
+    const { releaseNext, releaseLog, getHeldCount, server } = setup({ releaseOrder: 'reverse' })
+
+    try {
+      // 最後に届いたレスポンスで表示を更新する、競合に弱い状態管理
+      let shown = ''
+      const first = search('a').then(({ query }) => { shown = query })
+      await setTimeout(10)
+      const second = search('ab').then(({ query }) => { shown = query })
+      await setTimeout(10)
+      expect(getHeldCount()).toBe(2)
+
+      expect(releaseNext()?.url).toBe('https://api.example.com/search?q=ab')
+      await second
+      expect(releaseNext()?.url).toBe('https://api.example.com/search?q=a')
+      await first
+      expect(releaseNext()).toBeUndefined()
+
+      // 古いレスポンスで表示が上書きされる競合を再現できる
+      expect(shown).toBe('a')
+      expect(releaseLog.map(request => request.url)).toEqual([
+        'https://api.example.com/search?q=ab',
+        'https://api.example.com/search?q=a'
+      ])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('シードを指定した場合、同じシードであればチェックポイントで同じ順に解放する', async () => {
+    const run = async (seed: number) => {
+      const { checkpoint, releaseLog, responded, server } = setup({ releaseOrder: { seed } })
+      try {
+        const searches = ['a', 'b', 'c', 'd', 'e'].map(search)
+        await setTimeout(20)
+        await checkpoint()
+        await Promise.all(searches)
+
+        const order = releaseLog.map(request => new URL(request.url).searchParams.get('q'))
+        // 後続のハンドラーは解放した順に処理する
+        expect(responded).toEqual(order)
+        return order
+      } finally {
+        server.close()
+      }
+    }
+
+    const order = await run(42)
+    expect([...order].sort()).toEqual(['a', 'b', 'c', 'd', 'e'])
+    expect(await run(42)).toEqual(order)
+  })
+
+  it('デフォルトでは到着順に解放する', async () => {
+    const { releaseAll, releaseLog, responded, server } = setup({})
+
+    try {
+      const searches = ['a', 'b', 'c'].map(search)
+      await setTimeout(20)
+      expect(releaseAll()).toBe(3)
+      await Promise.all(searches)
+
+      expect(responded).toEqual(['a', 'b', 'c'])
+      expect(releaseLog).toHaveLength(3)
+    } finally {
+      server.close()
+    }
+  })
+})
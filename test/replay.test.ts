@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  canonicalizeJson,
+  createHarSink,
+  createJsonlSink,
+  createReplayHandlers,
+  createRequestsCaptureHandler,
+  maskUuids,
+  parseRecording,
+  sortQueryParams,
+  type CapturedRequest
+} from '../src/index'
+
+describe('記録の再生', () => {
+  const recording: CapturedRequest[] = [
+    { method: 'GET', url: 'https://api.example.com/users?a=1&b=2', response: { status: 200, body: [{ id: 1 }] } },
+    { method: 'POST', url: 'https://api.example.com/users', body: '{"name":"alice"}', response: { status: 201, body: { id: 2 } } },
+    { method: 'POST', url: 'https://api.example.com/users', body: '{"name":"bob"}', response: { status: 201, body: { id: 3 } } },
+    { method: 'GET', url: 'https://api.example.com/health', response: { status: 200, headers: { 'content-type': 'text/plain' }, body: 'ok' } },
+    { method: 'GET', url: 'https://api.example.com/no-response' }
+  ]
+
+  it('メソッドと正規化したURLが一致するリクエストに記録したレスポンスを返す', async () => {
+    const server = setupServer(...createReplayHandlers(recording))
+    server.listen({ onUnhandledRequest: 'error' })
+
+    try {
+      // クエリパラメータの順序は問わない
+      const users = await fetch('https://api.example.com/users?b=2&a=1')
+      expect(users.status).toBe(200)
+      expect(await users.json()).toEqual([{ id: 1 }])
+
+      const health = await fetch('https://api.example.com/health')
+      expect(health.headers.get('content-type')).toBe('text/plain')
+      expect(await health.text()).toBe('ok')
+    } finally {
+      server.close()
+    }
+  })
+
+  it('同じリクエストには記録の順に応答し、最後の記録を繰り返す', async () => {
+    const server = setupServer(...createReplayHandlers(recording))
+    server.listen()
+
+    try {
+      const ids: number[] = []
+      for (let i = 0; i < 3; i++) {
+        const response = await fetch('https://api.example.com/users', { method: 'POST', body: '{"name":"carol"}' })
+        ids.push(((await response.json()) as { id: number }).id)
+      }
+      expect(ids).toEqual([2, 3, 3])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('matchBodyを指定するとボディも一致するリクエストにのみ応答する', async () => {
+    const server = setupServer(
+      ...createReplayHandlers(recording, { matchBody: true, normalize: [sortQueryParams(), canonicalizeJson()] }),
+      http.all('*', () => HttpResponse.json({ fallback: true }))
+    )
+    server.listen()
+
+    try {
+      const bob = await fetch('https://api.example.com/users', { method: 'POST', body: '{ "name": "bob" }' })
+      expect(await bob.json()).toEqual({ id: 3 })
+
+      const carol = await fetch('https://api.example.com/users', { method: 'POST', body: '{"name":"carol"}' })
+      expect(await carol.json()).toEqual({ fallback: true })
+    } finally {
+      server.close()
+    }
+  })
+
+  it('記録にないリクエストはonUnmatchedに従って扱う', async () => {
+    const server = setupServer(
+      ...createReplayHandlers(recording),
+      http.all('*', () => HttpResponse.json({ fallback: true }))
+    )
+    server.listen()
+
+    try {
+      // レスポンスのない記録は再生しない
+      const passthrough = await fetch('https://api.example.com/no-response')
+      expect(await passthrough.json()).toEqual({ fallback: true })
+
+      server.resetHandlers(...createReplayHandlers(recording, { onUnmatched: 'error' }))
+      const error = await fetch('https://api.example.com/unknown')
+      expect(error.status).toBe(500)
+      expect(await error.text()).toContain('記録にないリクエストです: GET https://api.example.com/unknown')
+    } finally {
+      server.close()
+    }
+  })
+
+  it('JSON LinesとHARで記録したファイルをオフラインのフィクスチャとして再生できる', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'capture-requests-'))
+    const jsonlFile = join(dir, 'session.jsonl')
+    const harFile = join(dir, 'session.har')
+    const harSink = createHarSink({ file: harFile })
+    const jsonlSink = createJsonlSink({ file: jsonlFile })
+
+    // 開発用バックエンドの代わり
+    const backend = http.all('*', ({ request }) => {
+      return HttpResponse.json({ path: new URL(request.url).pathname })
+    })
+
+    const { handler, checkpoint, observe } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        jsonlSink(requests)
+        harSink.handler(requests)
+      },
+      responses: { headers: { allow: ['content-type'] } },
+      normalize: [maskUuids()]
+    })
+    const recordingServer = setupServer(http.all('*', handler), backend)
+    const unobserve = observe(recordingServer.events)
+    recordingServer.listen()
+
+    try {
+      await fetch('https://api.example.com/orders/3f2a1b4c-0000-4000-8000-000000000001')
+      await fetch('https://api.example.com/items')
+      await checkpoint()
+    } finally {
+      unobserve()
+      recordingServer.close()
+    }
+
+    try {
+      expect(parseRecording(readFileSync(jsonlFile, 'utf-8'))).toEqual(
+        parseRecording(readFileSync(harFile, 'utf-8')).map(({ method, url, response }) => ({ method, url, response }))
+      )
+
+      for (const file of [jsonlFile, harFile]) {
+        const replayServer = setupServer(...createReplayHandlers(readFileSync(file, 'utf-8'), { normalize: [maskUuids()] }))
+        replayServer.listen({ onUnhandledRequest: 'error' })
+
+        try {
+          const order = await fetch('https://api.example.com/orders/9c8b7a6d-0000-4000-8000-000000000002')
+          // 記録時にマスクされた値がそのまま返る
+          expect(await order.json()).toEqual({ path: '/orders/<UUID>' })
+
+          const items = await fetch('https://api.example.com/items')
+          expect(items.headers.get('content-type')).toBe('application/json')
+          expect(await items.json()).toEqual({ path: '/items' })
+        } finally {
+          replayServer.close()
+        }
+      }
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
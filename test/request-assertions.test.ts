@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { createRequestsCaptureHandler, type CapturedRequest } from '../src/index'
+import '../src/vitest'
+
+describe('カスタムマッチャー', () => {
+  const batch: CapturedRequest[] = [
+    { method: 'GET', url: 'https://api.example.com/users/1', headers: { 'x-trace-id': 'abc' } },
+    { method: 'POST', url: 'https://api.example.com/data', body: '{"test":"data1","id":1}' },
+    { method: 'POST', url: 'https://api.example.com/data', body: '{"test":"data2","id":2}' }
+  ]
+
+  it('toContainRequestでメソッド・パス・JSONボディを検証できる', () => {
+    expect(batch).toContainRequest({ method: 'POST', path: '/data', json: { test: 'data1', id: 1 } })
+    expect(batch).toContainRequest({ path: '/users/:id', headers: { 'X-Trace-Id': 'abc' } })
+    expect(batch).toContainRequest({ json: expect.objectContaining({ test: 'data2' }) })
+    expect(batch).not.toContainRequest({ method: 'DELETE' })
+    expect(batch).not.toContainRequest({ path: '/data', json: { test: 'data3' } })
+  })
+
+  it('toHaveRequestCountでマッチするリクエストの件数を検証できる', () => {
+    expect(batch).toHaveRequestCount({ method: 'POST', path: '/data' }, 2)
+    expect(batch).toHaveRequestCount({ host: '*.example.com' }, 3)
+    expect(batch).toHaveRequestCount({ method: 'PUT' }, 0)
+  })
+
+  it('toMatchRequestSequenceで順番と件数を検証できる', () => {
+    expect(batch).toMatchRequestSequence([
+      { method: 'GET', path: '/users/1' },
+      { json: { test: 'data1', id: 1 } },
+      { json: expect.objectContaining({ test: 'data2' }) }
+    ])
+    expect(batch).not.toMatchRequestSequence([{ method: 'GET' }, { method: 'POST' }])
+  })
+
+  it('失敗時に期待値とキャプチャされたリクエストを表示する', () => {
+    expect(() => expect(batch).toContainRequest({ method: 'POST', json: { test: 'data3' } }))
+      .toThrowError(/含まれることを期待しましたが[\s\S]*"test": "data3"[\s\S]*https:\/\/api\.example\.com\/data/)
+
+    expect(() => expect(batch).toHaveRequestCount({ method: 'POST' }, 1))
+      .toThrowError('1 件であることを期待しましたが、2 件でした')
+  })
+
+  it('toMatchRequestSequenceの失敗時に期待値と同じ項目の差分を表示する', () => {
+    let message = ''
+    try {
+      expect(batch).toMatchRequestSequence([
+        { method: 'GET', path: '/users/1' },
+        { json: { test: 'data1', id: 1 } },
+        { json: { test: 'data3', id: 2 } }
+      ])
+    } catch (error) {
+      message = (error as Error).message
+    }
+
+    expect(message).toContain('"test": "data3"')
+    expect(message).toContain('"test": "data2"')
+    // 期待値にない項目は差分に含まれない
+    expect(message).not.toContain('https://api.example.com/data')
+  })
+
+  it('キャプチャハンドラが受け取ったバッチを検証できる', async () => {
+    const batches: CapturedRequest[][] = []
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        batches.push(requests)
+      }
+    })
+
+    const server = setupServer(http.all('*', handler), http.all('*', () => HttpResponse.json({ success: true })))
+    server.listen()
+
+    try {
+      await Promise.all([
+        fetch('https://api.example.com/data', { method: 'POST', body: JSON.stringify({ test: 'data1' }) }),
+        fetch('https://api.example.com/data', { method: 'POST', body: JSON.stringify({ test: 'data2' }) })
+      ])
+      await checkpoint()
+
+      expect(batches[0]).toHaveRequestCount({ method: 'POST', path: '/data' }, 2)
+      expect(batches[0]).toMatchRequestSequence([
+        { method: 'POST', json: { test: 'data1' } },
+        { method: 'POST', json: { test: 'data2' } }
+      ])
+    } finally {
+      server.close()
+    }
+  })
+})
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { createRequestsCaptureHandler, createVirtualScheduler, matchesRequest, type CapturedRequest } from '../src/index'
+
+describe('リクエストのフィルタリング', () => {
+  const userHandler = http.all('*', () => {
+    return HttpResponse.json({ success: true })
+  })
+
+  it('include/excludeの条件でキャプチャするリクエストを選べる', async () => {
+    const capturedRequests: CapturedRequest[] = []
+
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        capturedRequests.push(...requests)
+      },
+      filter: {
+        include: [{ host: '*.example.com' }],
+        exclude: [
+          { path: '/health' },
+          { host: 'analytics.example.com' },
+          { path: '/api/users/:id', method: 'DELETE' },
+          (request) => request.headers.get('x-skip-capture') === '1'
+        ]
+      }
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/api/users/1')
+      await fetch('https://api.example.com/api/users/1', { method: 'DELETE' })
+      await fetch('https://api.example.com/health')
+      await fetch('https://analytics.example.com/beacon', { method: 'POST', body: '{}' })
+      await fetch('https://fonts.googleapis.com/css')
+      await fetch('https://api.example.com/api/posts', { headers: { 'X-Skip-Capture': '1' } })
+
+      await checkpoint()
+
+      expect(capturedRequests).toEqual([
+        { method: 'GET', url: 'https://api.example.com/api/users/1' }
+      ])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('除外されたリクエストは自動チェックポイントのタイマーをリセットしない', async () => {
+    const capturedGroups: CapturedRequest[][] = []
+    const scheduler = createVirtualScheduler()
+
+    const { handler } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        capturedGroups.push(requests)
+      },
+      options: { timeoutMs: 100 },
+      filter: { exclude: [{ path: '/beacon' }] },
+      scheduler
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/data')
+      await scheduler.advance(80)
+
+      // 除外されたリクエストではタイマーはリセットされない
+      await fetch('https://api.example.com/beacon', { method: 'POST', body: '{}' })
+      await scheduler.advance(20)
+
+      expect(capturedGroups).toEqual([
+        [{ method: 'GET', url: 'https://api.example.com/data' }]
+      ])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('matchesRequestは条件を全て満たす場合にマッチする', () => {
+    const request = { method: 'post', url: 'https://api.example.com:8443/api/users/42?x=1' }
+
+    expect(matchesRequest(request, { host: 'api.example.com' })).toBe(true)
+    expect(matchesRequest(request, { host: 'api.example.com:8443' })).toBe(true)
+    expect(matchesRequest(request, { host: 'api.example.com:80' })).toBe(false)
+    expect(matchesRequest(request, { path: '/api/users/:id', method: ['GET', 'POST'] })).toBe(true)
+    expect(matchesRequest(request, { path: '/api/users/:id', method: 'GET' })).toBe(false)
+    expect(matchesRequest(request, { path: 'https://api.example.com:8443/api/*' })).toBe(true)
+    expect(matchesRequest({ method: 'GET', url: '<APP>/api' }, { path: '/api' })).toBe(false)
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { setTimeout } from 'timers/promises'
+import {
+  compareRequests,
+  createRequestsCaptureHandler,
+  createVirtualScheduler,
+  normalizeRequest,
+  stripTiming,
+  type CapturedRequest
+} from '../src/index'
+
+const createGate = () => {
+  let open = () => {}
+  const opened = new Promise<void>(resolve => {
+    open = resolve
+  })
+  return { open, opened }
+}
+
+describe('リクエストのタイミング', () => {
+  it('到着順・開始時刻・所要時間・同時処理数を記録する', async () => {
+    const batches: CapturedRequest[][] = []
+    const scheduler = createVirtualScheduler()
+    const gates = { a: createGate(), b: createGate() }
+
+    const { handler, checkpoint, observe } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        batches.push(requests)
+      },
+      responses: {},
+      timing: true,
+      scheduler
+    })
+
+    const server = setupServer(
+      http.all('*', handler),
+      http.get('https://api.example.com/:name', async ({ params }) => {
+        const gate = gates[params.name as keyof typeof gates]
+        if (gate) await gate.opened
+        return HttpResponse.json({ name: params.name })
+      })
+    )
+    const unobserve = observe(server.events)
+    server.listen()
+
+    try {
+      // aとbを並行して送る
+      const a = fetch('https://api.example.com/a')
+      await setTimeout(10)
+      const b = fetch('https://api.example.com/b')
+      await setTimeout(10)
+
+      await scheduler.advance(50)
+      gates.b.open()
+      await b
+
+      await scheduler.advance(50)
+      gates.a.open()
+      await a
+
+      // cはaとbの完了後に送る
+      await fetch('https://api.example.com/c')
+      await checkpoint()
+
+      expect(batches[0].map(({ url, timing }) => ({ url, timing }))).toEqual([
+        { url: 'https://api.example.com/a', timing: { sequence: 1, startedAt: 0, duration: 100, concurrency: 2 } },
+        { url: 'https://api.example.com/b', timing: { sequence: 2, startedAt: 0, duration: 50, concurrency: 2 } },
+        { url: 'https://api.example.com/c', timing: { sequence: 3, startedAt: 100, duration: 0, concurrency: 1 } }
+      ])
+    } finally {
+      unobserve()
+      server.close()
+    }
+  })
+
+  it('レスポンスを対応付けない場合は到着順と開始時刻のみを記録する', async () => {
+    const batches: CapturedRequest[][] = []
+    const scheduler = createVirtualScheduler(500)
+
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        batches.push(requests)
+      },
+      timing: true,
+      scheduler
+    })
+
+    const server = setupServer(http.all('*', handler), http.all('*', () => HttpResponse.json({})))
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/b')
+      await fetch('https://api.example.com/a')
+      await checkpoint()
+
+      // 出力はタイミングによらずURL順のまま
+      expect(batches[0]).toEqual([
+        { method: 'GET', url: 'https://api.example.com/a', timing: { sequence: 2, startedAt: 500 } },
+        { method: 'GET', url: 'https://api.example.com/b', timing: { sequence: 1, startedAt: 500 } }
+      ])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('並び順の比較とstripTimingではタイミングの情報を無視できる', () => {
+    const first: CapturedRequest = { method: 'GET', url: 'https://api.example.com/a', timing: { sequence: 2, startedAt: 0 } }
+    const second: CapturedRequest = { method: 'GET', url: 'https://api.example.com/a', timing: { sequence: 1, startedAt: 10 } }
+
+    expect(compareRequests(first, second)).toBe(0)
+    expect(normalizeRequest(first, [stripTiming()])).toEqual({ method: 'GET', url: 'https://api.example.com/a' })
+    expect(first.timing).toBeDefined()
+  })
+})
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { createRequestsCaptureHandler, createVirtualScheduler, type CapturedRequest } from '../src/index'
+
+describe('レスポンスのキャプチャ', () => {
+  it('リクエストと後続ハンドラーのレスポンスを対応付けてキャプチャする', async () => {
+    const capturedRequests: CapturedRequest[] = []
+
+    const { handler, checkpoint, observe } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        capturedRequests.push(...requests)
+      },
+      responses: { headers: { allow: ['content-type', 'x-rate-limit'] } }
+    })
+
+    const userHandler = http.post('https://api.example.com/users', async ({ request }) => {
+      const body = await request.json() as Record<string, any>
+      return HttpResponse.json({ id: 1, ...body }, { status: 201, headers: { 'X-Rate-Limit': '10' } })
+    })
+
+    const textHandler = http.get('https://api.example.com/health', () => {
+      return HttpResponse.text('ok')
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler, textHandler)
+    const unobserve = observe(server.events)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'テストユーザー' })
+      })
+      await fetch('https://api.example.com/health')
+
+      await checkpoint()
+
+      expect(capturedRequests).toEqual([
+        {
+          method: 'GET',
+          url: 'https://api.example.com/health',
+          response: {
+            status: 200,
+            headers: { 'content-type': 'text/plain' },
+            body: 'ok'
+          }
+        },
+        {
+          method: 'POST',
+          url: 'https://api.example.com/users',
+          body: '{"name":"テストユーザー"}',
+          response: {
+            status: 201,
+            headers: { 'content-type': 'application/json', 'x-rate-limit': '10' },
+            body: { id: 1, name: 'テストユーザー' }
+          }
+        }
+      ])
+    } finally {
+      unobserve()
+      server.close()
+    }
+  })
+
+  it('waitForCheckpointが有効な場合、待機中のレスポンスを解放して確定を待ってからハンドラを呼ぶ', async () => {
+    const capturedRequests: CapturedRequest[] = []
+    const handlerCallOrder: string[] = []
+
+    const { handler, checkpoint, observe } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        handlerCallOrder.push('capture-handler')
+        capturedRequests.push(...requests)
+      },
+      options: { timeoutMs: 1000, waitForCheckpoint: true },
+      responses: {}
+    })
+
+    const userHandler = http.get('https://api.example.com/test', () => {
+      handlerCallOrder.push('user-handler')
+      return HttpResponse.json({ message: 'ok' })
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    const unobserve = observe(server.events)
+    server.listen()
+
+    try {
+      const responsePromise = fetch('https://api.example.com/test')
+
+      // リクエストがキャプチャされるまで待機
+      await new Promise(resolve => setTimeout(resolve, 20))
+
+      await checkpoint()
+
+      expect(handlerCallOrder).toEqual(['user-handler', 'capture-handler'])
+      expect(capturedRequests[0].response).toEqual({ status: 200, body: { message: 'ok' } })
+
+      const response = await responsePromise
+      expect(await response.json()).toEqual({ message: 'ok' })
+    } finally {
+      unobserve()
+      server.close()
+    }
+  })
+
+  it('イベントを購読していない場合はレスポンスを待たずに処理する', async () => {
+    const capturedRequests: CapturedRequest[] = []
+
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        capturedRequests.push(...requests)
+      },
+      responses: {}
+    })
+
+    const userHandler = http.get('https://api.example.com/test', () => {
+      return HttpResponse.json({ message: 'ok' })
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/test')
+      await checkpoint()
+
+      expect(capturedRequests).toEqual([
+        { method: 'GET', url: 'https://api.example.com/test' }
+      ])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('ネットワークエラーでレスポンスのイベントがない場合は、上限の時間の後にレスポンスなしで確定する', async () => {
+    const capturedRequests: CapturedRequest[] = []
+    const scheduler = createVirtualScheduler()
+
+    const { handler, checkpoint, observe } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        capturedRequests.push(...requests)
+      },
+      responses: {},
+      scheduler
+    })
+
+    // 後続のハンドラーが返すネットワークエラーと、実ネットワークへのパススルーの失敗
+    const errorHandler = http.get('https://api.example.com/error', () => HttpResponse.error())
+    const server = setupServer(http.all('*', handler), errorHandler)
+    const unobserve = observe(server.events)
+    server.listen({ onUnhandledRequest: 'bypass' })
+
+    try {
+      await expect(fetch('https://api.example.com/error')).rejects.toThrow()
+      await expect(fetch('http://127.0.0.1:1/unreachable')).rejects.toThrow()
+
+      let done = false
+      const completion = checkpoint().then(() => {
+        done = true
+      })
+      await scheduler.advance(4999)
+      expect(done).toBe(false)
+
+      await scheduler.advance(1)
+      await completion
+      expect(capturedRequests).toEqual([
+        { method: 'GET', url: 'http://127.0.0.1:1/unreachable' },
+        { method: 'GET', url: 'https://api.example.com/error' }
+      ])
+      expect(scheduler.pending()).toBe(0)
+    } finally {
+      unobserve()
+      server.close()
+    }
+  })
+})
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { setTimeout } from 'timers/promises'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { readFile, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createRequestsCaptureHandler, createVirtualScheduler, type CapturedRequest } from '../src/index'
+
+describe('スケジューラーの注入', () => {
+  const userHandler = http.get('https://api.example.com/test', () => {
+    return HttpResponse.json({ success: true })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('仮想時間で自動チェックポイントを駆動できる', async () => {
+    const capturedGroups: CapturedRequest[][] = []
+    const scheduler = createVirtualScheduler()
+
+    const { handler } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        capturedGroups.push(requests)
+      },
+      options: { timeoutMs: 100 },
+      scheduler
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/test')
+      expect(scheduler.pending()).toBe(1)
+
+      // 80ms経過後の新しいリクエストでタイマーがリセットされる
+      await scheduler.advance(80)
+      await fetch('https://api.example.com/test')
+
+      await scheduler.advance(99)
+      expect(capturedGroups).toHaveLength(0)
+
+      await scheduler.advance(1)
+      expect(capturedGroups).toHaveLength(1)
+      expect(capturedGroups[0]).toHaveLength(2)
+      expect(scheduler.now()).toBe(180)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('waitForCheckpointで待機中のレスポンスを仮想時間で解放できる', async () => {
+    const handlerCallOrder: string[] = []
+    const scheduler = createVirtualScheduler()
+
+    const { handler } = createRequestsCaptureHandler({
+      handler: async () => {
+        handlerCallOrder.push('capture-handler')
+      },
+      options: { timeoutMs: 60_000, waitForCheckpoint: true },
+      scheduler
+    })
+
+    const server = setupServer(http.all('*', handler), http.get('https://api.example.com/test', () => {
+      handlerCallOrder.push('user-handler')
+      return HttpResponse.json({ success: true })
+    }))
+    server.listen()
+
+    try {
+      const responsePromise = fetch('https://api.example.com/test')
+
+      // リクエストがキャプチャされてタイマーが予約されるまで待機
+      while (scheduler.pending() === 0) {
+        await setTimeout(1)
+      }
+
+      // 1分のタイムアウトも即座に経過させられる
+      await scheduler.runAll()
+      const response = await responsePromise
+
+      expect(await response.json()).toEqual({ success: true })
+      expect(handlerCallOrder).toEqual(['capture-handler', 'user-handler'])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('advance()は実際のI/Oを行う非同期ハンドラの完了まで待つ', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'capture-requests-'))
+    const file = join(dir, 'batch.json')
+    const scheduler = createVirtualScheduler()
+
+    const { handler } = createRequestsCaptureHandler({
+      handler: async (requests: CapturedRequest[]) => {
+        await writeFile(file, JSON.stringify(requests))
+        // 複数回のI/Oを挟んでも完了を待つ
+        await readFile(file, 'utf-8')
+        await writeFile(file, JSON.stringify({ done: true, requests }))
+      },
+      options: { timeoutMs: 100 },
+      scheduler
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/test')
+      await scheduler.advance(100)
+
+      expect(JSON.parse(await readFile(file, 'utf-8'))).toEqual({
+        done: true,
+        requests: [{ method: 'GET', url: 'https://api.example.com/test' }]
+      })
+    } finally {
+      server.close()
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('デフォルトのスケジューラーはvi.useFakeTimers()と併用できる', async () => {
+    vi.useFakeTimers()
+    const capturedRequests: CapturedRequest[] = []
+
+    const { handler } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        capturedRequests.push(...requests)
+      },
+      options: { timeoutMs: 100 }
+    })
+
+    await handler({ request: new Request('https://api.example.com/test'), requestId: '1' })
+
+    vi.advanceTimersByTime(99)
+    expect(capturedRequests).toHaveLength(0)
+
+    vi.advanceTimersByTime(1)
+    expect(capturedRequests).toEqual([
+      { method: 'GET', url: 'https://api.example.com/test' }
+    ])
+  })
+})
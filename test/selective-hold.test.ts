@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { setTimeout } from 'timers/promises'
+import {
+  createRequestsCaptureHandler,
+  type CapturedRequest
+} from '../src/index'
+
+describe('選択的な待機', () => {
+  const userHandler = http.all('*', ({ request }) => {
+    return HttpResponse.json({ path: new URL(request.url).pathname })
+  })
+
+  it('条件にマッチするリクエストのみをチェックポイントまで待機させる', async () => {
+    const batches: CapturedRequest[][] = []
+
+    const { handler, checkpoint, getHeldCount } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        batches.push(requests)
+      },
+      options: { timeoutMs: 60_000, waitForCheckpoint: { path: '/api/*' } }
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      // トークンの更新は待機せずに完了し、その後のデータのリクエストは待機する
+      const refresh = await fetch('https://api.example.com/auth/refresh', { method: 'POST', body: 'token' })
+      expect(refresh.status).toBe(200)
+
+      const dataPromise = fetch('https://api.example.com/api/users')
+      await setTimeout(20)
+      expect(getHeldCount()).toBe(1)
+
+      await checkpoint()
+      expect((await dataPromise).status).toBe(200)
+      expect(getHeldCount()).toBe(0)
+
+      // 待機しなかったリクエストもバッチに含まれる
+      expect(batches).toEqual([[
+        { method: 'GET', url: 'https://api.example.com/api/users' },
+        { method: 'POST', url: 'https://api.example.com/auth/refresh', body: 'token' }
+      ]])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('判定関数とパターンの配列を指定でき、判定関数には正規化前のリクエストが渡される', async () => {
+    const judged: CapturedRequest[] = []
+
+    const { handler, checkpoint, getHeldCount } = createRequestsCaptureHandler({
+      handler: () => {},
+      normalize: [request => ({ ...request, body: undefined })],
+      options: {
+        timeoutMs: 60_000,
+        waitForCheckpoint: [
+          { method: 'DELETE' },
+          request => {
+            judged.push(request)
+            return request.body === 'hold'
+          }
+        ]
+      }
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      await fetch('https://api.example.com/a', { method: 'POST', body: 'pass' })
+      const held = [
+        fetch('https://api.example.com/b', { method: 'POST', body: 'hold' }),
+        fetch('https://api.example.com/c', { method: 'DELETE' })
+      ]
+      await setTimeout(20)
+      expect(getHeldCount()).toBe(2)
+      expect(judged.map(request => request.body)).toEqual(['pass', 'hold'])
+
+      await checkpoint()
+      expect((await Promise.all(held)).map(response => response.status)).toEqual([200, 200])
+    } finally {
+      server.close()
+    }
+  })
+})
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  CaptureHandlerError,
+  createRequestsCaptureHandler,
+  createSnapshotHandler,
+  maskUuids,
+  readSnapshotMode,
+  ObsoleteSnapshotError,
+  SnapshotMismatchError,
+  type SnapshotMode
+} from '../src/index'
+import { createTestSnapshotHandler } from '../src/vitest'
+
+describe('リクエストのスナップショット', () => {
+  const userHandler = http.all('*', () => {
+    return HttpResponse.json({ success: true })
+  })
+
+  let dir: string
+  let file: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'capture-requests-'))
+    file = join(dir, 'snapshots', 'requests.json')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const run = async (mode: SnapshotMode, ids: string[]) => {
+    const snapshot = createSnapshotHandler({ file, name: 'ユーザー作成', mode })
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: snapshot,
+      normalize: [maskUuids()]
+    })
+
+    const server = setupServer(http.all('*', handler), userHandler)
+    server.listen()
+
+    try {
+      for (const id of ids) {
+        await fetch(`https://api.example.com/users/${id}`, { method: 'POST', body: JSON.stringify({ id }) })
+      }
+      await checkpoint()
+      await fetch('https://api.example.com/users')
+      await checkpoint()
+      snapshot.finish()
+    } finally {
+      server.close()
+    }
+  }
+
+  it('recordモードでテスト名とチェックポイントの番号をキーに記録する', async () => {
+    await run('record', ['3f2a1b4c-0000-4000-8000-000000000001'])
+
+    expect(JSON.parse(readFileSync(file, 'utf-8'))).toEqual({
+      'ユーザー作成 #1': [
+        { method: 'POST', url: 'https://api.example.com/users/<UUID>', body: '{"id":"<UUID>"}' }
+      ],
+      'ユーザー作成 #2': [
+        { method: 'GET', url: 'https://api.example.com/users' }
+      ]
+    })
+  })
+
+  it('verifyモードで正規化後のリクエストが記録と一致すれば成功する', async () => {
+    await run('record', ['3f2a1b4c-0000-4000-8000-000000000001'])
+    const recorded = readFileSync(file, 'utf-8')
+
+    await run('verify', ['9c8b7a6d-0000-4000-8000-000000000002'])
+
+    // 検証ではファイルを書き換えない
+    expect(readFileSync(file, 'utf-8')).toBe(recorded)
+  })
+
+  it('verifyモードで記録と異なる場合は差分付きのエラーになる', async () => {
+    await run('record', ['3f2a1b4c-0000-4000-8000-000000000001'])
+
+    const error = await run('verify', ['3f2a1b4c-0000-4000-8000-000000000001', 'another']).catch(error => error)
+
+    expect(error).toBeInstanceOf(CaptureHandlerError)
+    expect(error.cause).toBeInstanceOf(SnapshotMismatchError)
+    expect(error.cause.key).toBe('ユーザー作成 #1')
+    expect(error.cause.message).toContain('+     "url": "https://api.example.com/users/another"')
+    expect(error.cause.message).toContain('+     "body": "{\\"id\\":\\"another\\"}"')
+  })
+
+  it('verifyモードで記録がない場合はエラーになる', async () => {
+    const error = await run('verify', ['1']).catch(error => error)
+
+    expect(error.cause).toBeInstanceOf(SnapshotMismatchError)
+    expect(error.cause.expected).toBeUndefined()
+    expect(error.cause.message).toContain('CAPTURE_REQUESTS=record')
+  })
+
+  it('verifyモードでテストが参照しなかった記録があればfinish()でエラーになる', () => {
+    const record = createSnapshotHandler({ file, name: 'ユーザー一覧', mode: 'record' })
+    record([{ method: 'GET', url: 'https://api.example.com/users' }])
+    record([{ method: 'GET', url: 'https://api.example.com/users?page=2' }])
+    record([{ method: 'GET', url: 'https://api.example.com/users?page=3' }])
+    record.finish()
+
+    const verify = createSnapshotHandler({ file, name: 'ユーザー一覧', mode: 'verify' })
+    verify([{ method: 'GET', url: 'https://api.example.com/users' }])
+
+    const error = (() => {
+      try {
+        verify.finish()
+      } catch (error) {
+        return error
+      }
+    })() as ObsoleteSnapshotError
+    expect(error).toBeInstanceOf(ObsoleteSnapshotError)
+    expect(error.keys).toEqual(['ユーザー一覧 #2', 'ユーザー一覧 #3'])
+    expect(error.message).toContain('CAPTURE_REQUESTS=record')
+
+    // 番号は数え直すため、同じ名前で再び全ての記録と比較できる
+    verify([{ method: 'GET', url: 'https://api.example.com/users' }])
+    verify([{ method: 'GET', url: 'https://api.example.com/users?page=2' }])
+    verify([{ method: 'GET', url: 'https://api.example.com/users?page=3' }])
+    expect(() => verify.finish()).not.toThrow()
+  })
+
+  it('記録と一致しなかったテストはfinish()で参照されなかった記録を検出せず、番号を数え直す', () => {
+    const record = createSnapshotHandler({ file, name: 'ユーザー一覧', mode: 'record' })
+    record([{ method: 'GET', url: 'https://api.example.com/users' }])
+    record([{ method: 'GET', url: 'https://api.example.com/users?page=2' }])
+
+    const verify = createSnapshotHandler({ file, name: 'ユーザー一覧', mode: 'verify' })
+    expect(() => verify([{ method: 'GET', url: 'https://api.example.com/items' }])).toThrow(SnapshotMismatchError)
+    expect(() => verify.finish()).not.toThrow()
+
+    // リトライでは1番目から比較する
+    verify([{ method: 'GET', url: 'https://api.example.com/users' }])
+    verify([{ method: 'GET', url: 'https://api.example.com/users?page=2' }])
+    expect(() => verify.finish()).not.toThrow()
+  })
+
+  it('recordモードではテストが参照しなかった記録をfinish()で削除する', async () => {
+    await run('record', ['3f2a1b4c-0000-4000-8000-000000000001'])
+    // 別のテストの記録は残す
+    const other = createSnapshotHandler({ file, name: 'ユーザー作成 #1', mode: 'record' })
+    other([{ method: 'GET', url: 'https://api.example.com/other' }])
+    other.finish()
+
+    const record = createSnapshotHandler({ file, name: 'ユーザー作成', mode: 'record' })
+    record([{ method: 'GET', url: 'https://api.example.com/users' }])
+    record.finish()
+
+    expect(Object.keys(JSON.parse(readFileSync(file, 'utf-8')))).toEqual([
+      'ユーザー作成 #1',
+      'ユーザー作成 #1 #1'
+    ])
+  })
+
+  it('offモードでは何もしない', async () => {
+    await run('off', ['1'])
+
+    expect(existsSync(file)).toBe(false)
+  })
+
+  it('環境変数からモードを読み取る', () => {
+    expect(readSnapshotMode({})).toBe('verify')
+    expect(readSnapshotMode({ CAPTURE_REQUESTS: 'record' })).toBe('record')
+    expect(readSnapshotMode({ CAPTURE_REQUESTS: 'off' })).toBe('off')
+    expect(() => readSnapshotMode({ CAPTURE_REQUESTS: 'update' })).toThrowError('CAPTURE_REQUESTS')
+  })
+
+  it('Vitestでは実行中のテスト名をキーにする', () => {
+    const handler = createTestSnapshotHandler({ file, mode: 'record' })
+
+    handler([{ method: 'GET', url: 'https://api.example.com/users' }])
+
+    expect(Object.keys(JSON.parse(readFileSync(file, 'utf-8')))).toEqual([
+      'リクエストのスナップショット > Vitestでは実行中のテスト名をキーにする #1'
+    ])
+  })
+})
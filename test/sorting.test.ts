@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { createRequestsCaptureHandler, compareRequests, type CapturedRequest, type RequestSortOption } from '../src/index'
+
+// 指定した順序でリクエストを送信し、キャプチャされたリクエストを返すヘルパー
+async function captureInOrder(
+  requests: Array<{ url: string; init?: RequestInit }>,
+  sort?: RequestSortOption
+): Promise<CapturedRequest[]> {
+  const capturedRequests: CapturedRequest[] = []
+
+  const { handler, checkpoint } = createRequestsCaptureHandler({
+    handler: (requests: CapturedRequest[]) => {
+      capturedRequests.push(...requests)
+    },
+    headers: { allow: ['x-tenant-id'] },
+    sort
+  })
+
+  const userHandler = http.all('https://api.example.com/*', () => {
+    return HttpResponse.json({ success: true })
+  })
+
+  const server = setupServer(http.all('*', handler), userHandler)
+  server.listen()
+
+  try {
+    for (const { url, init } of requests) {
+      await fetch(url, init)
+    }
+    await checkpoint()
+    return capturedRequests
+  } finally {
+    server.close()
+  }
+}
+
+describe('バッチの並び順', () => {
+  const requests = [
+    { url: 'https://api.example.com/data', init: { method: 'POST', body: '{"test":"data2"}' } },
+    { url: 'https://api.example.com/data', init: { method: 'POST', body: '{"test":"data1"}', headers: { 'X-Tenant-Id': 'b' } } },
+    { url: 'https://api.example.com/data', init: { method: 'POST', body: '{"test":"data1"}', headers: { 'X-Tenant-Id': 'a' } } },
+    { url: 'https://api.example.com/a' }
+  ]
+
+  it('同じURL・メソッドのリクエストはボディ、ヘッダーの順で並ぶ', async () => {
+    const forward = await captureInOrder(requests)
+    const backward = await captureInOrder([...requests].reverse())
+
+    expect(forward).toEqual(backward)
+    expect(forward.map(request => [request.url, request.body, request.headers])).toEqual([
+      ['https://api.example.com/a', undefined, {}],
+      ['https://api.example.com/data', '{"test":"data1"}', { 'x-tenant-id': 'a' }],
+      ['https://api.example.com/data', '{"test":"data1"}', { 'x-tenant-id': 'b' }],
+      ['https://api.example.com/data', '{"test":"data2"}', {}]
+    ])
+  })
+
+  it("'arrival'を指定すると到着順を保持する", async () => {
+    const captured = await captureInOrder(requests, 'arrival')
+
+    expect(captured.map(request => request.headers?.['x-tenant-id'] ?? request.url)).toEqual([
+      'https://api.example.com/data',
+      'b',
+      'a',
+      'https://api.example.com/a'
+    ])
+  })
+
+  it('独自の比較関数を指定できる', async () => {
+    const captured = await captureInOrder(requests, (a, b) => b.url.localeCompare(a.url) || compareRequests(a, b))
+
+    expect(captured.map(request => request.url)).toEqual([
+      'https://api.example.com/data',
+      'https://api.example.com/data',
+      'https://api.example.com/data',
+      'https://api.example.com/a'
+    ])
+    expect(captured[0].headers).toEqual({ 'x-tenant-id': 'a' })
+  })
+
+  it("'arrival'はボディの読み取りが終わった順ではなく到着した順を保持する", async () => {
+    const capturedRequests: CapturedRequest[] = []
+    const { handler, checkpoint } = createRequestsCaptureHandler({
+      handler: (requests: CapturedRequest[]) => {
+        capturedRequests.push(...requests)
+      },
+      sort: 'arrival'
+    })
+
+    const server = setupServer(http.all('*', handler), http.all('*', () => HttpResponse.json({})))
+    server.listen()
+
+    try {
+      // 大きなボディの読み取り中に、ボディのないリクエストが到着する
+      await Promise.all([
+        fetch('https://api.example.com/big', { method: 'POST', body: 'x'.repeat(2 * 1024 * 1024) }),
+        fetch('https://api.example.com/small')
+      ])
+      await checkpoint()
+
+      expect(capturedRequests.map(request => request.url)).toEqual([
+        'https://api.example.com/big',
+        'https://api.example.com/small'
+      ])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('デフォルトの比較はロケールによらずコード単位で比較する', () => {
+    const upper: CapturedRequest = { method: 'GET', url: 'https://api.example.com/B' }
+    const lower: CapturedRequest = { method: 'GET', url: 'https://api.example.com/a' }
+
+    expect(compareRequests(upper, lower)).toBeLessThan(0)
+    expect(compareRequests({ ...upper, body: 'é' }, { ...upper, body: 'f' })).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,171 @@
+import { describe, it, expect, afterAll } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { setTimeout } from 'timers/promises'
+import {
+  captureTest,
+  createCaptureTest,
+  createCaptureSession,
+  createTestSnapshotHandler,
+  CaptureSessionError
+} from '../src/vitest'
+
+const userHandler = http.get('https://api.example.com/users/:id', ({ params }) => {
+  return HttpResponse.json({ id: params.id })
+})
+
+describe('Vitestフィクスチャ', () => {
+  captureTest('captureフィクスチャでサーバーの準備なしにキャプチャできる', async ({ capture }) => {
+    capture.use(userHandler)
+
+    const response = await fetch('https://api.example.com/users/1')
+    expect(await response.json()).toEqual({ id: '1' })
+
+    await capture.checkpoint()
+    expect(capture.batches).toEqual([
+      [{ method: 'GET', url: 'https://api.example.com/users/1' }]
+    ])
+  })
+
+  const test = createCaptureTest({
+    handlers: [userHandler],
+    options: { timeoutMs: 1000, waitForCheckpoint: true }
+  })
+
+  test('設定済みのフィクスチャでwaitForCheckpointを使える', async ({ capture }) => {
+    const responsePromise = fetch('https://api.example.com/users/2')
+    const batch = await Promise.all([capture.nextCheckpoint(), setTimeout(20).then(() => capture.checkpoint())])
+
+    expect(batch[0]).toEqual([{ method: 'GET', url: 'https://api.example.com/users/2' }])
+    expect((await responsePromise).status).toBe(200)
+  })
+})
+
+describe('フィクスチャでのスナップショット', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'capture-requests-'))
+  const file = join(dir, 'requests.json')
+  const testName = 'フィクスチャでのスナップショット > テストの終了時に使われなかった記録を削除する'
+  writeFileSync(file, JSON.stringify({
+    [`${testName} #1`]: [],
+    [`${testName} #2`]: [{ method: 'GET', url: 'https://api.example.com/users/2' }]
+  }))
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const test = createCaptureTest({
+    handlers: [userHandler],
+    handler: createTestSnapshotHandler({ file, mode: 'record' })
+  })
+
+  test('テストの終了時に使われなかった記録を削除する', async ({ capture }) => {
+    await fetch('https://api.example.com/users/1')
+    expect(capture.getHeldCount()).toBe(0)
+  })
+
+  it('フィクスチャの終了処理でfinish()が呼び出されている', () => {
+    expect(JSON.parse(readFileSync(file, 'utf-8'))).toEqual({
+      [`${testName} #1`]: [{ method: 'GET', url: 'https://api.example.com/users/1' }]
+    })
+  })
+
+  // リトライと同じく、同じキーで2回実行する
+  const verifyFile = join(dir, 'verify.json')
+  writeFileSync(verifyFile, JSON.stringify({
+    'リトライ #1': [{ method: 'GET', url: 'https://api.example.com/users/1' }]
+  }))
+  const verifyTest = createCaptureTest({
+    handlers: [userHandler],
+    handler: createTestSnapshotHandler({ file: verifyFile, name: 'リトライ', mode: 'verify' })
+  })
+
+  verifyTest.fails('終了時のチェックポイントが記録と一致しなければ失敗する', async ({ capture }) => {
+    await fetch('https://api.example.com/users/2')
+    expect(capture.getHeldCount()).toBe(0)
+  })
+
+  verifyTest('失敗した後も1番目のチェックポイントから比較する', async ({ capture }) => {
+    await fetch('https://api.example.com/users/1')
+    expect(capture.getHeldCount()).toBe(0)
+  })
+})
+
+describe('キャプチャセッションの終了処理', () => {
+  it('終了時に残っているリクエストをチェックポイントで処理する', async () => {
+    const session = createCaptureSession({ handlers: [userHandler] })
+    session.start()
+
+    await fetch('https://api.example.com/users/1')
+    await session.finish()
+
+    expect(session.batches).toEqual([
+      [{ method: 'GET', url: 'https://api.example.com/users/1' }]
+    ])
+  })
+
+  it('終了時にwaitForCheckpointで待機中のリクエストがあればエラーになる', async () => {
+    const session = createCaptureSession({
+      handlers: [userHandler],
+      options: { timeoutMs: 60_000, waitForCheckpoint: true }
+    })
+    session.start()
+
+    const responsePromise = fetch('https://api.example.com/users/1')
+    await setTimeout(20)
+
+    const error = await session.finish().catch(error => error)
+    expect(error).toBeInstanceOf(CaptureSessionError)
+    expect(error.held).toBe(1)
+
+    // 待機中のレスポンスは解放されている
+    expect((await responsePromise).status).toBe(200)
+  })
+
+  it('終了後に到着したリクエストがあればエラーになる', async () => {
+    const session = createCaptureSession({ handlers: [userHandler], leakWindowMs: 50 })
+    session.start()
+
+    const finishing = session.finish().catch(error => error)
+    const leakedResponse = await fetch('https://api.example.com/users/3')
+
+    const error = await finishing
+    expect(error).toBeInstanceOf(CaptureSessionError)
+    expect(error.leaked).toEqual([{ method: 'GET', url: 'https://api.example.com/users/3' }])
+    expect(error.message).toContain('GET https://api.example.com/users/3')
+
+    // リークしたリクエストも後続のハンドラーで処理される
+    expect(leakedResponse.status).toBe(200)
+    expect(session.batches).toHaveLength(0)
+  })
+
+  it('leakWindowMsより後に送られたリクエストは検出されない', async () => {
+    const session = createCaptureSession({ handlers: [userHandler], leakWindowMs: 20 })
+    session.start()
+
+    const finishing = session.finish()
+    // 待ち受けの時間の後に送られたリクエストはMSWの停止後のため、インターセプトされない
+    await setTimeout(60)
+    const lateRequest = fetch('http://127.0.0.1:1/users/4').catch(error => error)
+
+    await expect(finishing).resolves.toBeUndefined()
+    expect(session.leaked).toEqual([])
+    expect(session.batches).toHaveLength(0)
+    await lateRequest
+  })
+
+  it('デフォルトでも終了直後のリクエストはリークとして検出する', async () => {
+    const session = createCaptureSession({ handlers: [userHandler] })
+    session.start()
+
+    const finishing = session.finish().catch(error => error)
+    await setTimeout(10)
+    await fetch('https://api.example.com/users/5')
+
+    const error = await finishing
+    expect(error).toBeInstanceOf(CaptureSessionError)
+    expect(error.leaked).toEqual([{ method: 'GET', url: 'https://api.example.com/users/5' }])
+  })
+})